@@ -1,33 +1,103 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { GamePhase, TriviaConfig, GeneratedQuestion } from './types';
+import { GamePhase, TriviaConfig, GeneratedQuestion, AnswerRecord, AnswerVerdict, TranscriptEntry, GameRecord, QuestionPack, GroundingSource, GameControl, LanguageCode, ReviewCard } from './types';
 import SetupScreen from './components/SetupScreen';
 import AudioVisualizer from './components/AudioVisualizer';
-import { generateQuestions, generateSummarySpeech } from './services/geminiService';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { createPcmBlob, decodeAudioData, base64ToUint8Array } from './services/audioUtils';
-
-// Initialize GenAI outside component
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import TranscriptPanel from './components/TranscriptPanel';
+import Scoreboard from './components/Scoreboard';
+import CountdownTimer from './components/CountdownTimer';
+import HistoryScreen from './components/HistoryScreen';
+import PackEditorScreen from './components/PackEditorScreen';
+import QuestionEditor from './components/QuestionEditor';
+import GameReview from './components/GameReview';
+import DifficultyCurve from './components/DifficultyCurve';
+import RoundScores from './components/RoundScores';
+import { triviaProvider } from './services/triviaProvider';
+import { FunctionResponse } from '@google/genai';
+import { LiveTriviaSession, createLiveTriviaSession } from './services/liveTriviaSession';
+import { ChallengeLinkError, PackImportError, QuestionGenerationError, TopicRejectedError, VerificationError } from './services/errors';
+import { buildGameSummary } from './services/gameSummary';
+import { appendTranscript, closeTranscriptTurn } from './services/transcript';
+import { buildControlPrompt, buildHostInstruction, buildResumePrompt, buildTypedAnswerPrompt } from './services/prompts';
+import { computePlayerScores, isPartyGame, matchPlayer, playerForQuestion, timeBonus, totalPoints } from './services/scoring';
+import { RECORD_ANSWER, ADVANCE_QUESTION, END_GAME } from './services/triviaTools';
+import { createGameId, saveGame } from './services/historyStore';
+import { createPack, serializePack, validatePack } from './services/questionPacks';
+import { downloadFile, toFilename } from './services/download';
+import { localize, t, uiLanguage } from './services/i18n';
+import { SessionRecorder } from './services/sessionRecorder';
+import { SpeakerLabels, transcriptToJson, transcriptToSrt, transcriptToVtt } from './services/transcriptExport';
+import { AdaptiveQuestionPool } from './services/adaptive';
+import { ENDLESS_LIVES, EndlessQuestionFeed, HighScore, getHighScore, livesLeft, recordHighScore } from './services/endless';
+import { QuestionFeed, usesQuestionFeed } from './services/questionFeed';
+import { addMissedQuestions, dueReviewCards, forgetReviewQuestion, loadReviewDeck, overturnReviewMiss, recordReviewResults } from './services/reviewDeck';
+import { computeRoundScores, generateRoundQuestions, isMultiRound, questionRound } from './services/rounds';
+import { ChallengeScore, buildChallenge, clearChallengeFromUrl, createChallengeUrl, decodeChallenge, readChallengeFromUrl } from './services/challenge';
+import { moderateTopics, screenQuestion } from './services/moderation';
 
 const App: React.FC = () => {
   const [phase, setPhase] = useState<GamePhase>(GamePhase.SETUP);
+  // Interface language the setup screen was showing when it opened history or the pack editor
+  const [menuLang, setMenuLang] = useState<LanguageCode>('en');
   const [config, setConfig] = useState<TriviaConfig | null>(null);
   const [questions, setQuestions] = useState<GeneratedQuestion[]>([]);
-  const [sources, setSources] = useState<any[]>([]);
+  const questionsRef = useRef<GeneratedQuestion[]>([]); // Adaptive games add questions mid-session, so callbacks read this
+  const feedRef = useRef<QuestionFeed | null>(null); // Only set for adaptive and endless games
+  const [sources, setSources] = useState<GroundingSource[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [activePack, setActivePack] = useState<QuestionPack | null>(null);
+  const [isEditingQuestions, setIsEditingQuestions] = useState(false);
+  const [challenge, setChallenge] = useState<ChallengeScore | null>(null); // The friend's result when playing from a challenge link
+  const [challengeLink, setChallengeLink] = useState<'idle' | 'creating' | 'copied'>('idle');
   
-  // Audio Refs
-  const audioContextRef = useRef<AudioContext | null>(null);
+  // Live Session
+  const liveSessionRef = useRef<LiveTriviaSession | null>(null);
   const inputAnalyserRef = useRef<AnalyserNode | null>(null);
   const outputAnalyserRef = useRef<AnalyserNode | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionRef = useRef<any>(null); // To store the session object (simplified)
   
   // Game Logic State
   const [isConnected, setIsConnected] = useState(false);
-  const [transcript, setTranscript] = useState<{role: 'user'|'model', text: string}[]>([]);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [answers, setAnswers] = useState<AnswerRecord[]>([]);
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  const currentQuestionIndexRef = useRef(0);
+  const answersRef = useRef<AnswerRecord[]>([]); // Mirror of answers for use inside session callbacks
+  const [summary, setSummary] = useState<string | null>(null);
+  const gameEndingRef = useRef(false); // Host has signalled the end; finish once its audio drains
+  const gameEndedRef = useRef(false);
+  const outputTurnTextRef = useRef(''); // Output transcription of the current host turn
+  const transcriptRef = useRef<TranscriptEntry[]>([]);
+  const startedAtRef = useRef(0);
+  const gameRecordRef = useRef<GameRecord | null>(null); // The finished game as saved to history
+  const reviewCardsRef = useRef<ReviewCard[]>([]); // The review deck as it was before a review game rescheduled it
+  const [disputingIndex, setDisputingIndex] = useState<number | null>(null);
+  const [micUnavailable, setMicUnavailable] = useState(false); // Mic was requested but denied, so typing takes over
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const recorderRef = useRef<SessionRecorder | null>(null); // Only set when the game is being recorded
+  const [highScore, setHighScore] = useState<{ best: HighScore | null; isNew: boolean } | null>(null); // Endless games only
+  const [deckUpdate, setDeckUpdate] = useState<string | null>(null); // What the game changed in the review deck
+  const [deadline, setDeadline] = useState<number | null>(null); // When the current question's clock runs out
+  const deadlineRef = useRef<number | null>(null);
+  const roundTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const timerPendingRef = useRef(false); // A question was just asked; start the clock when the host stops talking
+
+  const score = answers.filter(a => a.verdict === 'correct').length;
+  const partyGame = config ? isPartyGame(config) : false;
+  const lang = uiLanguage(config);
+  const timeLimitMs = (config?.timeLimitSeconds ?? 0) * 1000;
+  const gameLength = config?.adaptive ? config.questionCount : questions.length;
+  const lives = livesLeft(answers);
+  const multiRound = config ? isMultiRound(config) : false;
+  const currentRound = config && multiRound ? questionRound(config, questions[currentQuestionIndex]) : 0;
+  const points = totalPoints(answers);
+  const typing = config?.inputMode === 'text' || micUnavailable;
+  const questionOpen = isConnected && !answers.some(a => a.questionIndex === currentQuestionIndex);
+  const playerScores = config && partyGame ? computePlayerScores(config.players, answers) : [];
+  const activePlayer = config ? playerForQuestion(config, currentQuestionIndex) : null;
+
+  useEffect(() => {
+    transcriptRef.current = transcript;
+  }, [transcript]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -36,29 +106,98 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Opened from a challenge link: go straight to the friend's question set
+  useEffect(() => {
+    const payload = readChallengeFromUrl();
+    if (!payload) return;
+    clearChallengeFromUrl();
+    setPhase(GamePhase.PREPARING);
+    decodeChallenge(payload)
+      .then(async (received) => {
+        // The link was made by someone else, so its topic is vetted like one typed here
+        await moderateTopics(received.config, triviaProvider);
+        setConfig(received.config);
+        setQuestions(received.questions);
+        setSources([]);
+        setActivePack(null);
+        feedRef.current?.close();
+        feedRef.current = null;
+        setChallenge(received.score);
+        setPhase(GamePhase.READY);
+      })
+      .catch((e) => {
+        console.error(e);
+        setError(e instanceof TopicRejectedError
+          ? e.message
+          : e instanceof ChallengeLinkError
+            ? `${t('en', 'challengeInvalid')} ${e.message}`
+            : t('en', 'challengeInvalid'));
+        setPhase(GamePhase.SETUP);
+      });
+  }, []);
+
   const endSession = () => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-    }
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-    }
-    if (sessionRef.current && typeof sessionRef.current.close === 'function') {
-      try { sessionRef.current.close(); } catch(e) {}
-    }
-    sourcesRef.current.forEach(source => source.stop());
-    sourcesRef.current.clear();
+    stopRoundTimer();
+    timerPendingRef.current = false;
+    liveSessionRef.current?.end();
+    liveSessionRef.current?.removeAllListeners();
+    liveSessionRef.current = null;
     setIsConnected(false);
   };
 
   const handleStart = async (newConfig: TriviaConfig) => {
     setConfig(newConfig);
-    setPhase(GamePhase.PREPARING);
     setError(null);
+    setChallenge(null);
+    setIsEditingQuestions(false);
+    feedRef.current?.close();
+    feedRef.current = null;
+
+    // Review games replay the deck's due cards instead of generating anything
+    if (newConfig.review) {
+      const due = dueReviewCards(newConfig.language);
+      if (due.length === 0) return;
+      setQuestions(due.map(card => card.question));
+      setSources([]);
+      setPhase(GamePhase.READY);
+      return;
+    }
 
+    setPhase(GamePhase.PREPARING);
     try {
+      // Every topic is vetted before anything is generated for it
+      await moderateTopics(newConfig, triviaProvider);
+
+      // A loaded pack is the question source; it skips generation but is screened like a challenge link
+      if (activePack) {
+        const flagged = activePack.questions.findIndex(q => screenQuestion(q));
+        if (flagged >= 0) {
+          throw new PackImportError({ key: 'packQuestionMarkup', params: { number: flagged + 1 } });
+        }
+        setQuestions(activePack.questions);
+        setSources(activePack.sources ?? []);
+        setPhase(GamePhase.READY);
+        return;
+      }
+
+      // Adaptive and endless games start with one question and draw the rest from a feed as they go
+      if (usesQuestionFeed(newConfig)) {
+        const feed: QuestionFeed = newConfig.endless
+          ? await EndlessQuestionFeed.create(newConfig, triviaProvider)
+          : await AdaptiveQuestionPool.create(newConfig, triviaProvider);
+        const first = await feed.next([], []);
+        if (!first) throw new Error("The question feed came back empty");
+        feedRef.current = feed;
+        setQuestions([first]);
+        setSources(feed.sources);
+        setPhase(GamePhase.READY);
+        return;
+      }
+
       // 1. Generate Questions using Search Grounding
-      const { questions: generatedQuestions, sources: groundingSources } = await generateQuestions(newConfig.topic);
+      const { questions: generatedQuestions, sources: groundingSources } = isMultiRound(newConfig)
+        ? await generateRoundQuestions(newConfig, triviaProvider)
+        : await triviaProvider.generateQuestions(newConfig);
       setQuestions(generatedQuestions);
       setSources(groundingSources);
 
@@ -66,178 +205,476 @@ const App: React.FC = () => {
       setPhase(GamePhase.READY);
     } catch (e) {
       console.error(e);
-      setError("Failed to generate questions. Please try again.");
+      const errorLang = uiLanguage(newConfig);
+      setError(e instanceof PackImportError
+        ? `${t(errorLang, 'packRejected')} ${localize(errorLang, e.problem)}`
+        : e instanceof TopicRejectedError
+          ? `${e.message} ${t(errorLang, 'tryOtherTopic')}`
+          : e instanceof QuestionGenerationError
+            ? `${t(errorLang, 'questionsFailed', { topic: newConfig.topic })} ${t(errorLang, 'tryOtherTopic')}`
+            : t(errorLang, 'generationFailed'));
       setPhase(GamePhase.SETUP);
     }
   };
 
+  // Loads a saved game's exact question set and goes straight to READY
+  const handleReplay = (game: GameRecord) => {
+    // Adaptive and endless games are replayed with the questions they ended up asking
+    setConfig({ ...game.config, adaptive: false, endless: false });
+    feedRef.current?.close();
+    feedRef.current = null;
+    setQuestions(game.questions);
+    setSources(game.sources);
+    setError(null);
+    setChallenge(null);
+    setPhase(GamePhase.READY);
+  };
+
+  // The READY screen lets players tweak questions, so re-check them before the host sees them
+  const handleConnect = () => {
+    if (!config) return;
+    const problems = validatePack(createPack({ title: config.topic, topic: config.topic, questions }));
+    if (problems.length > 0) {
+      setError(localize(lang, problems[0]));
+      setIsEditingQuestions(true);
+      return;
+    }
+    setError(null);
+    setIsEditingQuestions(false);
+    startLiveSession();
+  };
+
+  const handleExportQuestions = () => {
+    if (!config) return;
+    const pack = createPack({ title: `${config.topic} Trivia`, topic: config.topic, questions, sources });
+    downloadFile(toFilename(pack.title, 'json'), serializePack(pack), 'application/json');
+  };
+
   const startLiveSession = async () => {
     if (!config || questions.length === 0) return;
     
     setPhase(GamePhase.PLAYING);
+    questionsRef.current = questions;
+    setAnswers([]);
+    answersRef.current = [];
+    setCurrentQuestionIndex(0);
+    currentQuestionIndexRef.current = 0;
+    setIsReconnecting(false);
+    setMicUnavailable(false);
+    setTypedAnswer('');
+    setSummary(null);
+    setHighScore(null);
+    setDeckUpdate(null);
+    setChallengeLink('idle');
+    setTranscript([]);
+    gameEndingRef.current = false;
+    gameEndedRef.current = false;
+    gameRecordRef.current = null;
+    outputTurnTextRef.current = '';
+    startedAtRef.current = Date.now();
+    const recorder = config.recordSession ? new SessionRecorder() : null;
+    recorderRef.current = recorder;
     
-    // Initialize Audio Contexts
-    const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-    const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    
-    audioContextRef.current = outputCtx; // Store main output context
+    const liveSession = createLiveTriviaSession({
+      config,
+      questions,
+      systemInstruction: buildHostInstruction(config, questions),
+      resumePrompt: () => buildResumePrompt(
+        currentQuestionIndexRef.current,
+        answersRef.current,
+        usesQuestionFeed(config) ? questionsRef.current.slice(currentQuestionIndexRef.current) : [],
+      ),
+    }, triviaProvider);
+    liveSessionRef.current = liveSession;
 
-    // Input Analyser
-    const inputAnalyser = inputCtx.createAnalyser();
-    inputAnalyser.fftSize = 256;
-    inputAnalyserRef.current = inputAnalyser;
+    liveSession.on('connected', ({ resumed }) => {
+      console.log(resumed ? "Live Session Resumed" : "Live Session Opened");
+      inputAnalyserRef.current = liveSession.inputAnalyser;
+      outputAnalyserRef.current = liveSession.outputAnalyser;
+      setIsConnected(true);
+      setIsReconnecting(false);
+    });
 
-    // Output Analyser
-    const outputAnalyser = outputCtx.createAnalyser();
-    outputAnalyser.fftSize = 256;
-    outputAnalyserRef.current = outputAnalyser;
-    
-    // Connect output analyser to destination
-    // Note: We will connect sources to this analyser, then to destination
-    // But we need to make sure we don't break the chain.
-    // Simpler: Connect sources -> outputAnalyser -> destination.
+    if (recorder) {
+      liveSession.on('modelAudio', ({ buffer, playAt }) => recorder.add('model', buffer.getChannelData(0), buffer.sampleRate, playAt));
+      liveSession.on('micAudio', ({ samples, sampleRate, capturedAt }) => recorder.add('mic', samples, sampleRate, capturedAt));
+      liveSession.on('interrupted', () => recorder.interrupt(performance.now()));
+    }
+
+    liveSession.on('micUnavailable', () => {
+      setMicUnavailable(true);
+    });
+
+    liveSession.on('reconnecting', ({ attempt }) => {
+      console.warn(`Connection dropped, reconnecting (attempt ${attempt})`);
+      setIsConnected(false);
+      setIsReconnecting(true);
+    });
+
+    // Handle Scoring Tool Calls
+    // Fed games may have to wait for the next question to finish generating before answering
+    liveSession.on('toolCall', async ({ calls }) => {
+      const functionResponses: FunctionResponse[] = await Promise.all(calls.map(async call => ({
+        id: call.id,
+        name: call.name,
+        response: await handleToolCall(call.name, call.args || {}),
+      })));
+      liveSession.sendToolResponses(functionResponses);
+    });
+
+    // Handle Transcript
+    liveSession.on('transcript', ({ role, text, finished }) => {
+      if (role === 'user') {
+        if (text) setTranscript(prev => appendTranscript(prev, 'user', text));
+        if (finished) setTranscript(prev => closeTranscriptTurn(prev, 'user'));
+        return;
+      }
+      if (!text) return;
+      // The host speaking means the player's turn is over
+      setTranscript(prev => appendTranscript(closeTranscriptTurn(prev, 'user'), 'model', text));
+
+      // Detect the host's closing line as a fallback to the endGame tool
+      outputTurnTextRef.current += text;
+      if (/\bgame\s+over\b/i.test(outputTurnTextRef.current)) {
+        gameEndingRef.current = true;
+      }
+    });
+
+    liveSession.on('interrupted', () => {
+      setTranscript(prev => closeTranscriptTurn(prev, 'model'));
+    });
+
+    liveSession.on('turnComplete', () => {
+      setTranscript(prev => closeTranscriptTurn(prev, 'model'));
+      outputTurnTextRef.current = '';
+      if (timerPendingRef.current) {
+        timerPendingRef.current = false;
+        startRoundTimer();
+      }
+      if (gameEndingRef.current) {
+        scheduleEndGame();
+      }
+    });
+
+    liveSession.on('closed', () => {
+      console.log("Session Closed");
+      setIsConnected(false);
+    });
+
+    // Reconnecting has already failed by the time this fires, so wrap up with the results so far
+    liveSession.on('error', ({ error }) => {
+      console.error("Session Error", error);
+      setError(t(uiLanguage(config), 'connectionLost'));
+      handleEndGame();
+    });
 
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-
-      // Setup Input Stream
-      const source = inputCtx.createMediaStreamSource(stream);
-      source.connect(inputAnalyser); // For viz
-      
-      const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-      
-      // Construct System Instruction
-      const questionsText = questions.map((q, i) => 
-        `Q${i+1}: ${q.question} (Answer: ${q.answer}) [Fact: ${q.context}]`
-      ).join('\n');
-
-      const systemInstruction = `
-        You are a trivia host with this personality: ${config.personality}.
-        Your goal is to run a trivia game with the user about "${config.topic}".
-        
-        Here are the questions you MUST ask, one by one. Do not skip any.
-        ${questionsText}
-        
-        Rules:
-        1. Greet the user and explain the topic briefly.
-        2. Ask the first question.
-        3. Wait for the user's answer.
-        4. If correct, congratulate them enthusiastically. If wrong, gently correct them and share the [Fact].
-        5. Move to the next question immediately after the feedback.
-        6. After the last question (Q5), summarize how they did and say "GAME OVER".
-        
-        Keep responses concise and spoken-word friendly. Be lively!
-      `;
-
-      // Connect to Live API
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: {
-          onopen: () => {
-            console.log("Live Session Opened");
-            setIsConnected(true);
-            
-            // Connect Audio Processing
-            scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-              const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-              const pcmBlob = createPcmBlob(inputData);
-              sessionPromise.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputCtx.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-             // Handle Transcript
-             if (message.serverContent?.modelTurn?.parts?.[0]?.text) {
-                setTranscript(prev => [...prev, { role: 'model', text: message.serverContent?.modelTurn?.parts?.[0]?.text || ''}]);
-             }
-             
-             // Handle Audio Output
-             const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-             if (base64Audio) {
-               nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
-               
-               const audioBuffer = await decodeAudioData(
-                 base64ToUint8Array(base64Audio),
-                 outputCtx,
-                 24000,
-                 1
-               );
-
-               const sourceNode = outputCtx.createBufferSource();
-               sourceNode.buffer = audioBuffer;
-               
-               // Connect to analyser for viz, then destination
-               sourceNode.connect(outputAnalyser); 
-               outputAnalyser.connect(outputCtx.destination);
-
-               sourceNode.start(nextStartTimeRef.current);
-               nextStartTimeRef.current += audioBuffer.duration;
-               
-               sourcesRef.current.add(sourceNode);
-               sourceNode.onended = () => sourcesRef.current.delete(sourceNode);
-             }
-
-             // Handle Interruptions
-             if (message.serverContent?.interrupted) {
-               sourcesRef.current.forEach(s => s.stop());
-               sourcesRef.current.clear();
-               nextStartTimeRef.current = 0;
-             }
-             
-             // Check for "Game Over" trigger in text to end game gracefully? 
-             // Hard to detect in pure audio, but if we had transcription enabled we could.
-             // For now, rely on user to click "End Game".
-          },
-          onclose: () => {
-            console.log("Session Closed");
-            setIsConnected(false);
-          },
-          onerror: (err) => {
-            console.error("Session Error", err);
-            setError("Connection error.");
-          }
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-          },
-          systemInstruction: systemInstruction,
-        }
-      });
-      
-      // Store session for later closing if needed (though promise-based)
-      // sessionRef.current = ... (Not directly accessible sync, but handled via closure/promise)
-      
+      await liveSession.start();
     } catch (e) {
       console.error("Failed to start live session", e);
-      setError("Microphone access denied or API error.");
+      setError(t(uiLanguage(config), 'connectFailed'));
+      endSession();
       setPhase(GamePhase.SETUP);
     }
   };
 
+  // Applies a host tool call to game state and returns the payload sent back to the model
+  const handleToolCall = async (name: string | undefined, args: Record<string, unknown>): Promise<Record<string, unknown>> => {
+    switch (name) {
+      case RECORD_ANSWER: {
+        const questionIndex = Number(args.questionIndex);
+        const asked = questionsRef.current.length;
+        if (!Number.isInteger(questionIndex) || questionIndex < 0 || questionIndex >= asked) {
+          return { error: `questionIndex must be between 0 and ${asked - 1}` };
+        }
+        const verdict: AnswerVerdict = args.verdict === 'correct' ? 'correct' : 'incorrect';
+        const record: AnswerRecord = { questionIndex, userAnswer: String(args.userAnswer ?? ''), verdict };
+        // Checked before the clock stops, so the host's corrected retry still gets the countdown and bonus
+        if (config && isPartyGame(config)) {
+          const player = typeof args.playerName === 'string' ? matchPlayer(config.players, args.playerName) : null;
+          if (!player) {
+            return { error: `playerName must be one of: ${config.players.join(', ')}` };
+          }
+          record.player = player;
+        }
+        if (questionIndex === currentQuestionIndexRef.current) {
+          // Answering before the clock even started earns the full bonus
+          const remainingMs = timerPendingRef.current ? timeLimitMs : stopRoundTimer();
+          timerPendingRef.current = false;
+          if (verdict === 'correct' && remainingMs !== null && timeLimitMs > 0) {
+            record.bonus = timeBonus(remainingMs, timeLimitMs);
+          }
+        }
+        // A repeated call for the same question replaces the earlier verdict
+        answersRef.current = [...answersRef.current.filter(a => a.questionIndex !== questionIndex), record];
+        setAnswers(answersRef.current);
+        const correct = answersRef.current.filter(a => a.verdict === 'correct').length;
+        // Endless games have no total, only the lives that are left
+        const progress = config?.endless
+          ? { livesLeft: livesLeft(answersRef.current) }
+          : { total: config?.adaptive ? config.questionCount : questionsRef.current.length };
+        const output: Record<string, unknown> = config && isPartyGame(config)
+          ? { scores: computePlayerScores(config.players, answersRef.current), ...progress }
+          : { score: correct, points: totalPoints(answersRef.current), answered: answersRef.current.length, ...progress };
+        if (config && isMultiRound(config)) {
+          const round = questionRound(config, questionsRef.current[questionIndex]);
+          const { topic, correct: roundCorrect, answered, total: roundTotal } = computeRoundScores(config, questionsRef.current, answersRef.current)[round];
+          output.round = { number: round + 1, topic, correct: roundCorrect, answered, total: roundTotal };
+        }
+        const nextQuestion = config && usesQuestionFeed(config) ? await pickNextQuestion(questionIndex) : null;
+        if (nextQuestion) output.nextQuestion = nextQuestion;
+        return { output };
+      }
+      case ADVANCE_QUESTION: {
+        const questionIndex = Number(args.questionIndex);
+        const asked = questionsRef.current.length;
+        if (!Number.isInteger(questionIndex) || questionIndex < 0 || questionIndex >= asked) {
+          return { error: `questionIndex must be between 0 and ${asked - 1}` };
+        }
+        setCurrentQuestionIndex(questionIndex);
+        currentQuestionIndexRef.current = questionIndex;
+        stopRoundTimer();
+        timerPendingRef.current = timeLimitMs > 0;
+        return { output: { questionIndex } };
+      }
+      case END_GAME:
+        gameEndingRef.current = true;
+        scheduleEndGame();
+        return { output: { ended: true } };
+      default:
+        return { error: `Unknown function ${name}` };
+    }
+  };
+
+  // Draws the fed game's next question once the current one is scored; repeat calls get the same pick
+  const pickNextQuestion = async (questionIndex: number): Promise<Record<string, unknown> | null> => {
+    const feed = feedRef.current;
+    if (!feed || !config) return null;
+    const hasRoom = config.endless
+      ? livesLeft(answersRef.current) > 0
+      : questionsRef.current.length < config.questionCount;
+    if (!hasRoom) return null;
+
+    if (!questionsRef.current[questionIndex + 1] && questionIndex === questionsRef.current.length - 1) {
+      const picked = await feed.next(questionsRef.current, answersRef.current);
+      // Skip it if the game ended or another call already picked while this one waited
+      if (picked && !gameEndedRef.current && questionsRef.current.length === questionIndex + 1) {
+        questionsRef.current = [...questionsRef.current, picked];
+        setQuestions(questionsRef.current);
+        setSources(feed.sources);
+      }
+    }
+    const next = questionsRef.current[questionIndex + 1];
+    if (!next) return null;
+    const { citations, ...question } = next;
+    return { questionIndex: questionIndex + 1, ...question };
+  };
+
+  // Starts the answer clock once the host's queued audio (the question) has finished playing
+  const startRoundTimer = () => {
+    if (timeLimitMs <= 0) return;
+    stopRoundTimer();
+    const startsInMs = liveSessionRef.current?.remainingPlaybackMs() ?? 0;
+    deadlineRef.current = Date.now() + startsInMs + timeLimitMs;
+    setDeadline(deadlineRef.current);
+    roundTimerRef.current = setTimeout(handleTimeUp, startsInMs + timeLimitMs);
+  };
+
+  // Stops the clock and returns the time that was left, or null if none was running
+  const stopRoundTimer = (): number | null => {
+    if (roundTimerRef.current) clearTimeout(roundTimerRef.current);
+    roundTimerRef.current = null;
+    const remainingMs = deadlineRef.current !== null ? Math.max(0, deadlineRef.current - Date.now()) : null;
+    deadlineRef.current = null;
+    setDeadline(null);
+    return remainingMs;
+  };
+
+  const handleTimeUp = () => {
+    stopRoundTimer();
+    sendControl('time_up');
+  };
+
+  const sendControl = (control: GameControl) => {
+    liveSessionRef.current?.sendText(buildControlPrompt(control, currentQuestionIndexRef.current));
+  };
+
+  // Typed answers go to the host as text turns; they have no input transcription, so log them directly
+  const handleSubmitAnswer = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = typedAnswer.trim();
+    if (!text || !liveSessionRef.current) return;
+    liveSessionRef.current.sendText(buildTypedAnswerPrompt(text));
+    setTranscript(prev => closeTranscriptTurn(appendTranscript(closeTranscriptTurn(prev, 'model'), 'user', text), 'user'));
+    setTypedAnswer('');
+  };
+
+  const handleSkip = () => {
+    stopRoundTimer();
+    timerPendingRef.current = false;
+    sendControl('skip');
+  };
+
+  // Ends the game once the host's queued audio has finished playing
+  const scheduleEndGame = () => {
+    const remainingMs = liveSessionRef.current?.remainingPlaybackMs() ?? 0;
+    setTimeout(handleEndGame, remainingMs + 500);
+  };
+
   const handleEndGame = async () => {
+    if (gameEndedRef.current) return;
+    gameEndedRef.current = true;
+
     endSession();
     setPhase(GamePhase.ENDED);
+
+    // A fed game may have picked a next question the host never got to ask
+    const played = config && usesQuestionFeed(config)
+      ? questionsRef.current.slice(0, currentQuestionIndexRef.current + 1)
+      : questionsRef.current;
+    const playedSources = feedRef.current?.sources ?? sources;
+    feedRef.current?.close();
+    setQuestions(played);
+    setSources(playedSources);
+    if (config?.endless) {
+      const correct = answersRef.current.filter(a => a.verdict === 'correct').length;
+      setHighScore(recordHighScore(config.topic, correct, totalPoints(answersRef.current)));
+    }
+    // Misses go into the review deck; a review game reschedules the cards it played instead
+    if (config?.review) {
+      reviewCardsRef.current = loadReviewDeck();
+      const rescheduled = recordReviewResults(played, answersRef.current);
+      if (rescheduled > 0) setDeckUpdate(t(uiLanguage(config), 'reviewRescheduled', { count: rescheduled }));
+    } else if (config) {
+      const added = addMissedQuestions(config, played, answersRef.current);
+      if (added > 0) setDeckUpdate(t(uiLanguage(config), 'reviewAdded', { count: added }));
+    }
+
+    if (config && played.length > 0) {
+      const record: GameRecord = {
+        id: createGameId(),
+        config,
+        questions: played,
+        answers: answersRef.current,
+        sources: playedSources,
+        transcript: transcriptRef.current,
+        startedAt: startedAtRef.current,
+        endedAt: Date.now(),
+      };
+      gameRecordRef.current = record;
+      saveGame(record).catch(e => console.error("Failed to save game to history", e));
+    }
+
     // Auto-play a summary using TTS
-    if (questions.length > 0) {
-        const summaryText = `That was a great game of ${config?.topic} trivia! I hope you learned something new. Thanks for playing TrivAI Live.`;
-        const buffer = await generateSummarySpeech(summaryText);
-        if (buffer && audioContextRef.current) {
-            // Re-use context or create new if closed (likely closed by endSession)
+    if (config && played.length > 0) {
+        const summaryText = buildGameSummary(config, played, answersRef.current);
+        setSummary(summaryText);
+        // Players who chose a silent host get the recap on screen only
+        const buffer = config.textReplies ? null : await triviaProvider.generateSummarySpeech(summaryText, config.personality.voice);
+        if (buffer) {
+            // The session's output context is closed by endSession, so play through a fresh one
             const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
             const source = ctx.createBufferSource();
             source.buffer = buffer;
             source.connect(ctx.destination);
+            source.onended = () => ctx.close();
             source.start();
         }
     }
   };
 
+  const transcriptLabels = (): SpeakerLabels => ({
+    model: config?.personality.name ?? 'Host',
+    user: t(lang, 'playerLabel'),
+  });
+
+  const handleDownloadAudio = () => {
+    if (!recorderRef.current || recorderRef.current.isEmpty) return;
+    downloadFile(toFilename(`${config?.topic ?? 'trivai'} game`, 'wav'), recorderRef.current.toWav(), 'audio/wav');
+  };
+
+  const handleExportTranscript = (format: 'json' | 'srt' | 'vtt') => {
+    const filename = toFilename(`${config?.topic ?? 'trivai'} transcript`, format);
+    const args = [transcript, startedAtRef.current, transcriptLabels()] as const;
+    if (format === 'json') downloadFile(filename, transcriptToJson(...args), 'application/json');
+    if (format === 'srt') downloadFile(filename, transcriptToSrt(...args), 'application/x-subrip');
+    if (format === 'vtt') downloadFile(filename, transcriptToVtt(...args), 'text/vtt');
+  };
+
+  // Compares against the friend on points when the game was timed, otherwise on correct answers
+  const challengeResult = (): string => {
+    if (!challenge) return '';
+    const timed = timeLimitMs > 0;
+    const mine = timed ? points : score;
+    const theirs = timed ? challenge.points : challenge.correct;
+    const label = timed ? t(lang, 'pointsTotal', { points: theirs }) : `${theirs}/${challenge.total}`;
+    const key = mine > theirs ? 'challengeWon' : mine < theirs ? 'challengeLost' : 'challengeTied';
+    return t(lang, key, { theirs: label });
+  };
+
+  // Shares the finished game's questions and score so a friend can try to beat it
+  const handleChallengeFriend = async () => {
+    if (!config) return;
+    setChallengeLink('creating');
+    try {
+      const url = await createChallengeUrl(buildChallenge(config, questions, answersRef.current));
+      if (navigator.share) {
+        await navigator.share({ title: `TrivAI Live: ${config.topic}`, url });
+        setChallengeLink('idle');
+      } else {
+        await navigator.clipboard.writeText(url);
+        setChallengeLink('copied');
+      }
+    } catch (e) {
+      // Closing the share sheet rejects with AbortError, which isn't worth reporting
+      if ((e as Error).name !== 'AbortError') {
+        console.error(e);
+        setError(t(lang, 'challengeLinkFailed'));
+      }
+      setChallengeLink('idle');
+    }
+  };
+
+  // Re-checks a question the player thinks was scored wrongly and overturns the verdict if they were right
+  const handleDispute = async (questionIndex: number) => {
+    const record = answersRef.current.find(a => a.questionIndex === questionIndex);
+    const question = questions[questionIndex];
+    if (!record || !question || disputingIndex !== null) return;
+
+    const citedIds = new Set([...(question.citations?.answer ?? []), ...(question.citations?.context ?? [])]);
+    const questionSources = citedIds.size > 0 ? sources.filter(s => citedIds.has(s.id)) : sources;
+
+    setDisputingIndex(questionIndex);
+    setError(null);
+    try {
+      const verification = await triviaProvider.verifyAnswer(question, record.userAnswer, questionSources);
+      const updated: AnswerRecord = {
+        ...record,
+        verdict: verification.userAnswerCorrect ? 'correct' : record.verdict,
+        dispute: { ...verification, originalVerdict: record.verdict, checkedAt: Date.now() },
+      };
+      answersRef.current = answersRef.current.map(a => (a.questionIndex === questionIndex ? updated : a));
+      setAnswers(answersRef.current);
+      // The player was right after all: a review card counts as recalled, and a fresh miss has nothing to review
+      if (verification.userAnswerCorrect && record.verdict !== 'correct') {
+        if (config?.review) overturnReviewMiss(reviewCardsRef.current, question);
+        else forgetReviewQuestion(question);
+      }
+
+      if (gameRecordRef.current) {
+        gameRecordRef.current = { ...gameRecordRef.current, answers: answersRef.current };
+        saveGame(gameRecordRef.current).catch(e => console.error("Failed to update game in history", e));
+      }
+    } catch (e) {
+      console.error("Dispute check failed", e);
+      setError(e instanceof VerificationError
+        ? `${e.message} ${t(lang, 'tryAgain')}`
+        : t(lang, 'disputeFailed'));
+    } finally {
+      setDisputingIndex(null);
+    }
+  };
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-4 relative overflow-hidden">
       {/* Background Ambience */}
@@ -245,41 +682,94 @@ const App: React.FC = () => {
       <div className="absolute top-0 left-0 w-96 h-96 bg-purple-600/20 rounded-full blur-3xl -translate-x-1/2 -translate-y-1/2 pointer-events-none"></div>
       <div className="absolute bottom-0 right-0 w-96 h-96 bg-indigo-600/20 rounded-full blur-3xl translate-x-1/2 translate-y-1/2 pointer-events-none"></div>
 
-      {phase === GamePhase.SETUP && (
-        <SetupScreen onStart={handleStart} isLoading={false} />
+      {/* One instance for both phases, so a failed start returns to the form with every setting intact */}
+      {(phase === GamePhase.SETUP || phase === GamePhase.PREPARING) && (
+        <SetupScreen
+          onStart={handleStart}
+          onShowHistory={(setupLang) => {
+            setMenuLang(setupLang);
+            setPhase(GamePhase.HISTORY);
+          }}
+          pack={activePack}
+          onEditPack={(setupLang) => {
+            setMenuLang(setupLang);
+            setPhase(GamePhase.PACK_EDITOR);
+          }}
+          onClearPack={() => setActivePack(null)}
+          isLoading={phase === GamePhase.PREPARING}
+        />
+      )}
+
+      {phase === GamePhase.PACK_EDITOR && (
+        <PackEditorScreen
+          pack={activePack ?? createPack()}
+          onSave={(pack) => {
+            setActivePack(pack);
+            setPhase(GamePhase.SETUP);
+          }}
+          onCancel={() => setPhase(GamePhase.SETUP)}
+          lang={menuLang}
+        />
       )}
-      
-      {phase === GamePhase.PREPARING && (
-         <SetupScreen onStart={handleStart} isLoading={true} />
+
+      {phase === GamePhase.HISTORY && (
+        <HistoryScreen onBack={() => setPhase(GamePhase.SETUP)} onReplay={handleReplay} lang={menuLang} />
       )}
 
       {phase === GamePhase.READY && (
         <div className="text-center max-w-lg w-full bg-slate-800/80 p-8 rounded-2xl backdrop-blur-md border border-slate-700 shadow-2xl animate-fade-in">
-          <h2 className="text-3xl font-bold text-white mb-4">Trivia Ready!</h2>
+          <h2 className="text-3xl font-bold text-white mb-4">{t(lang, 'readyTitle')}</h2>
           <p className="text-slate-300 mb-6">
-            We have 5 fresh questions about <span className="text-indigo-400 font-bold">{config?.topic}</span>.
+            {t(lang, activePack ? 'readyPack' : config?.review ? 'readyReview' : config?.endless ? 'readyEndless' : config?.adaptive ? 'readyAdaptive' : 'readyFresh', { count: gameLength, lives: ENDLESS_LIVES })} <span className="text-indigo-400 font-bold">{config?.topic}</span>.
             <br/><br/>
-            Turn up your volume and click "Connect" to meet your host.
+            {t(lang, 'readyVolume')}
           </p>
+          {config?.endless && getHighScore(config.topic) && (
+            <p className="text-amber-300 font-semibold mb-6">
+              {t(lang, 'highScoreToBeat', { score: getHighScore(config.topic)!.correct })}
+            </p>
+          )}
+          {challenge && (
+            <p className="text-amber-300 font-semibold mb-6">
+              {t(lang, 'challengeIntro', { score: challenge.correct, total: challenge.total })}
+            </p>
+          )}
           
           <div className="mb-6 flex flex-wrap gap-2 justify-center">
             {sources.length > 0 && (
-              <div className="text-xs text-slate-500 w-full mb-1">Verified with Google Search:</div>
+              <div className="text-xs text-slate-500 w-full mb-1">{t(lang, 'verifiedWith')}</div>
             )}
-            {sources.map((source, idx) => (
-               source.web?.uri ? (
-                  <a key={idx} href={source.web.uri} target="_blank" rel="noopener noreferrer" className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs text-slate-300 truncate max-w-[150px]">
-                    {source.web.title || "Source"}
-                  </a>
-               ) : null
+            {sources.map((source) => (
+              <a key={source.id} href={source.uri} target="_blank" rel="noopener noreferrer" className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs text-slate-300 truncate max-w-[150px]">
+                {source.title}
+              </a>
             ))}
           </div>
 
+          {/* Fed games pick their questions during play, so there's no fixed set to review yet */}
+          {!(config && usesQuestionFeed(config)) && (
+            <div className="mb-6">
+              <div className="flex justify-center gap-4 text-sm">
+                <button onClick={() => setIsEditingQuestions(!isEditingQuestions)} className="text-indigo-400 hover:text-indigo-300 transition-all">
+                  {isEditingQuestions ? t(lang, 'hideQuestions') : t(lang, 'reviewQuestions')}
+                </button>
+                <button onClick={handleExportQuestions} className="text-slate-400 hover:text-white transition-all">
+                  {t(lang, 'exportPack')}
+                </button>
+              </div>
+              {isEditingQuestions && (
+                <div className="mt-4 max-h-[45vh] overflow-y-auto pr-1">
+                  <QuestionEditor questions={questions} onChange={setQuestions} lang={lang} />
+                </div>
+              )}
+            </div>
+          )}
+
           <button 
-            onClick={startLiveSession}
+            onClick={handleConnect}
             className="w-full py-4 bg-green-600 hover:bg-green-500 text-white rounded-xl font-bold text-lg shadow-lg shadow-green-900/50 transition-all"
           >
-            Connect to Live Host
+            {t(lang, 'connect')}
           </button>
         </div>
       )}
@@ -292,24 +782,126 @@ const App: React.FC = () => {
              <div className="flex justify-between items-center mb-8">
                <div className="flex items-center gap-3">
                  <div className={`w-3 h-3 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`}></div>
-                 <span className="text-slate-300 font-mono text-sm">{isConnected ? 'LIVE CONNECTION' : 'CONNECTING...'}</span>
+                 <span className="text-slate-300 font-mono text-sm">{isConnected ? t(lang, 'liveConnection') : isReconnecting ? t(lang, 'reconnecting') : t(lang, 'connecting')}</span>
                </div>
-               <div className="text-indigo-400 font-bold text-sm uppercase tracking-wider">{config?.personality}</div>
+               <div className="text-indigo-400 font-bold text-sm uppercase tracking-wider">{config?.personality.name}</div>
              </div>
 
-             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
-                <div className="space-y-2">
-                   <label className="text-xs text-slate-500 uppercase font-bold tracking-wider">AI Voice Output</label>
-                   <AudioVisualizer analyser={outputAnalyserRef.current} isActive={isConnected} color="#a78bfa" />
-                </div>
-                <div className="space-y-2">
-                   <label className="text-xs text-slate-500 uppercase font-bold tracking-wider">Your Microphone</label>
-                   <AudioVisualizer analyser={inputAnalyserRef.current} isActive={isConnected} color="#34d399" />
-                </div>
+             {config?.rounds && multiRound && (
+               <div className="mb-4 text-center text-amber-300 font-semibold animate-fade-in" key={currentRound}>
+                 {t(lang, 'roundOf', { current: currentRound + 1, total: config.rounds.length, topic: config.rounds[currentRound] })}
+               </div>
+             )}
+
+             <div className="flex justify-between items-center mb-6 text-sm">
+               <span className="text-slate-300">
+                 {config?.endless
+                   ? t(lang, 'questionNumber', { current: currentQuestionIndex + 1 })
+                   : t(lang, 'questionOf', { current: currentQuestionIndex + 1, total: gameLength })}
+                 {config?.adaptive && questions[currentQuestionIndex] && <> · {t(lang, questions[currentQuestionIndex].difficulty)}</>}
+               </span>
+               {config?.endless && (
+                 <span className="text-red-400 tracking-widest" title={t(lang, 'livesLeft', { count: lives })} aria-label={t(lang, 'livesLeft', { count: lives })}>
+                   {'♥'.repeat(lives)}<span className="text-slate-600">{'♥'.repeat(ENDLESS_LIVES - lives)}</span>
+                 </span>
+               )}
+               {activePlayer && (
+                 <span className="text-slate-300">
+                   {t(lang, 'upNow')} <span className="text-indigo-400 font-bold">{activePlayer}</span>
+                 </span>
+               )}
+               {!partyGame && (
+                 <span className="text-slate-300">
+                   {t(lang, 'score')} <span className="text-green-400 font-bold">{score}</span> / {answers.length}
+                   {timeLimitMs > 0 && <> · {t(lang, 'points')} <span className="text-indigo-400 font-bold">{points}</span></>}
+                 </span>
+               )}
              </div>
 
-             <div className="text-center text-slate-400 text-sm italic">
-               Listening... Speak clearly to answer.
+             {timeLimitMs > 0 && (
+               <div className="mb-6">
+                 {deadline !== null
+                   ? <CountdownTimer deadline={deadline} durationMs={timeLimitMs} />
+                   : <div className="h-2 rounded-full bg-slate-700" />}
+               </div>
+             )}
+
+             {partyGame && (
+               <div className="mb-6">
+                 <Scoreboard scores={playerScores} activePlayer={activePlayer} showPoints={timeLimitMs > 0} lang={lang} />
+               </div>
+             )}
+
+             {(!config?.textReplies || !typing) && (
+               <div className={`grid grid-cols-1 ${!config?.textReplies && !typing ? 'md:grid-cols-2' : ''} gap-6 mb-8`}>
+                  {!config?.textReplies && (
+                    <div className="space-y-2">
+                       <label className="text-xs text-slate-500 uppercase font-bold tracking-wider">{t(lang, 'hostVoice')}</label>
+                       <AudioVisualizer analyser={outputAnalyserRef.current} isActive={isConnected} color="#a78bfa" />
+                    </div>
+                  )}
+                  {!typing && (
+                    <div className="space-y-2">
+                       <label className="text-xs text-slate-500 uppercase font-bold tracking-wider">{t(lang, 'yourMicrophone')}</label>
+                       <AudioVisualizer analyser={inputAnalyserRef.current} isActive={isConnected} color="#34d399" />
+                    </div>
+                  )}
+               </div>
+             )}
+
+             <div className="space-y-2 mb-6">
+               <label className="text-xs text-slate-500 uppercase font-bold tracking-wider">{t(lang, 'liveTranscript')}</label>
+               <TranscriptPanel entries={transcript} hostLabel={config?.personality.name} lang={lang} />
+             </div>
+
+             {typing ? (
+               <form onSubmit={handleSubmitAnswer} className="mb-4">
+                 {micUnavailable && (
+                   <p className="text-xs text-amber-300 mb-2">{t(lang, 'micUnavailable')}</p>
+                 )}
+                 <div className="flex gap-2">
+                   <input
+                     type="text"
+                     value={typedAnswer}
+                     onChange={(e) => setTypedAnswer(e.target.value)}
+                     disabled={!isConnected}
+                     autoFocus
+                     className="flex-1 px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-white placeholder-slate-500 disabled:opacity-50 transition-all"
+                     placeholder={t(lang, 'typeAnswer')}
+                   />
+                   <button
+                     type="submit"
+                     disabled={!isConnected || !typedAnswer.trim()}
+                     className="px-5 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-bold disabled:opacity-50 transition-all"
+                   >
+                     {t(lang, 'send')}
+                   </button>
+                 </div>
+               </form>
+             ) : (
+               <div className="text-center text-slate-400 text-sm italic mb-4">
+                 {t(lang, 'listening')}
+               </div>
+             )}
+
+             <div className="flex justify-center gap-3">
+               {([['hint', 'hint'], ['repeat', 'repeatQuestion']] as const).map(([control, label]) => (
+                 <button
+                   key={control}
+                   onClick={() => sendControl(control)}
+                   disabled={!questionOpen}
+                   className="px-4 py-2 rounded-xl bg-slate-700 hover:bg-slate-600 text-white text-sm font-semibold disabled:opacity-50 transition-all"
+                 >
+                   {t(lang, label)}
+                 </button>
+               ))}
+               <button
+                 onClick={handleSkip}
+                 disabled={!questionOpen}
+                 className="px-4 py-2 rounded-xl border border-slate-600 text-slate-300 hover:border-slate-400 text-sm font-semibold disabled:opacity-50 transition-all"
+               >
+                 {t(lang, 'skip')}
+               </button>
              </div>
            </div>
 
@@ -317,20 +909,114 @@ const App: React.FC = () => {
              onClick={handleEndGame}
              className="px-8 py-3 bg-red-500/10 border border-red-500/50 text-red-400 hover:bg-red-500/20 rounded-full transition-all font-medium text-sm"
            >
-             End Session
+             {t(lang, 'endSession')}
            </button>
         </div>
       )}
 
       {phase === GamePhase.ENDED && (
         <div className="text-center bg-slate-800/90 p-8 rounded-2xl border border-slate-700 backdrop-blur-xl animate-scale-in">
-          <h2 className="text-4xl font-bold text-white mb-2">Game Over</h2>
-          <p className="text-slate-300 mb-8">Thanks for playing!</p>
+          <h2 className="text-4xl font-bold text-white mb-2">{t(lang, 'gameOver')}</h2>
+          {partyGame ? (
+            <div className="mb-6 max-w-md">
+              <Scoreboard scores={playerScores} showPoints={timeLimitMs > 0} lang={lang} />
+            </div>
+          ) : (
+            <p className="text-slate-300 mb-6">
+              {t(lang, 'youScored', { score, total: questions.length })}
+              {config && <> {t(lang, 'scoredOn')} <span className="text-indigo-400 font-bold">{config.topic}</span></>}.
+              {timeLimitMs > 0 && <span className="block text-indigo-300 font-bold mt-1">{t(lang, 'pointsTotal', { points })}</span>}
+            </p>
+          )}
+          {deckUpdate && (
+            <p className="text-slate-400 text-sm mb-6">{deckUpdate}</p>
+          )}
+          {highScore?.best && (
+            <p className="text-amber-300 font-bold mb-6">
+              {highScore.isNew ? t(lang, 'newHighScore') : t(lang, 'highScore', { score: highScore.best.correct })}
+            </p>
+          )}
+          {challenge && !partyGame && (
+            <p className="text-amber-300 font-bold mb-6">{challengeResult()}</p>
+          )}
+          {summary && (
+            <p className="text-slate-400 text-sm italic mb-6 max-w-md">{summary}</p>
+          )}
+          {config && multiRound && (
+            <div className="mb-8">
+              <RoundScores
+                scores={computeRoundScores(config, questions, answers)}
+                showPoints={timeLimitMs > 0}
+                lang={lang}
+              />
+            </div>
+          )}
+          {config?.adaptive && (
+            <div className="mb-8">
+              <DifficultyCurve
+                questions={questions}
+                answers={answers}
+                title={t(lang, 'difficultyCurve')}
+                tierLabels={{ easy: t(lang, 'easy'), medium: t(lang, 'medium'), hard: t(lang, 'hard') }}
+              />
+            </div>
+          )}
+          <div className="mb-8">
+            <GameReview
+              questions={questions}
+              answers={answers}
+              sources={sources}
+              onDispute={handleDispute}
+              disputingIndex={disputingIndex}
+              lang={lang}
+            />
+          </div>
+          {transcript.length > 0 && (
+            <details className="text-left mb-8 max-w-md">
+              <summary className="text-sm text-slate-400 cursor-pointer mb-2">{t(lang, 'showTranscript')}</summary>
+              <TranscriptPanel entries={transcript} hostLabel={config?.personality.name} lang={lang} />
+            </details>
+          )}
+          {(transcript.length > 0 || recorderRef.current) && (
+            <div className="flex flex-wrap justify-center items-center gap-2 mb-8 text-sm">
+              {recorderRef.current && (
+                <button
+                  onClick={handleDownloadAudio}
+                  className="px-4 py-2 rounded-xl bg-slate-700 hover:bg-slate-600 text-white font-semibold transition-all"
+                >
+                  {t(lang, 'downloadAudio')}
+                </button>
+              )}
+              {transcript.length > 0 && (
+                <>
+                  <span className="text-slate-400 ml-2">{t(lang, 'transcriptExport')}</span>
+                  {(['json', 'srt', 'vtt'] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => handleExportTranscript(format)}
+                      className="px-3 py-2 rounded-xl border border-slate-600 text-slate-300 hover:border-slate-400 uppercase text-xs font-semibold transition-all"
+                    >
+                      {format}
+                    </button>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+          {!partyGame && (
+            <button
+              onClick={handleChallengeFriend}
+              disabled={challengeLink === 'creating'}
+              className="block mx-auto mb-4 px-6 py-2 rounded-xl border border-amber-500/60 text-amber-300 hover:bg-amber-500/10 font-semibold text-sm disabled:opacity-50 transition-all"
+            >
+              {challengeLink === 'creating' ? t(lang, 'creatingLink') : challengeLink === 'copied' ? t(lang, 'linkCopied') : t(lang, 'challengeFriend')}
+            </button>
+          )}
           <button 
             onClick={() => setPhase(GamePhase.SETUP)}
             className="px-8 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-all shadow-lg"
           >
-            Play Again
+            {t(lang, 'playAgain')}
           </button>
         </div>
       )}
@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+
+interface CountdownTimerProps {
+  deadline: number; // Epoch ms when time runs out
+  durationMs: number;
+}
+
+const TICK_MS = 200;
+const WARNING_MS = 5000;
+
+// Shrinking bar with the seconds left on the current question
+const CountdownTimer: React.FC<CountdownTimerProps> = ({ deadline, durationMs }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  const remainingMs = Math.max(0, deadline - now);
+  // The host may still be reading the question, so the bar stays full until the clock starts
+  const fraction = Math.min(1, remainingMs / durationMs);
+  const warning = remainingMs <= WARNING_MS;
+
+  return (
+    <div className="flex items-center gap-3" role="timer" aria-live="off">
+      <div className="flex-1 h-2 rounded-full bg-slate-700 overflow-hidden">
+        <div
+          className={`h-full transition-all duration-200 ${warning ? 'bg-red-500' : 'bg-indigo-500'}`}
+          style={{ width: `${fraction * 100}%` }}
+        />
+      </div>
+      <span className={`font-mono text-sm w-8 text-right ${warning ? 'text-red-400 font-bold' : 'text-slate-300'}`}>
+        {Math.min(Math.ceil(remainingMs / 1000), Math.round(durationMs / 1000))}
+      </span>
+    </div>
+  );
+};
+
+export default CountdownTimer;
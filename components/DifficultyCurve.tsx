@@ -0,0 +1,65 @@
+import React from 'react';
+import { AnswerRecord, Difficulty, GeneratedQuestion } from '../types';
+import { DIFFICULTY_TIERS } from '../services/adaptive';
+
+interface DifficultyCurveProps {
+  questions: GeneratedQuestion[];
+  answers: AnswerRecord[];
+  title: string;
+  tierLabels: Record<Difficulty, string>;
+}
+
+const STEP_X = 40;
+const STEP_Y = 32;
+const PAD = 12;
+
+// Step chart of each question's difficulty in an adaptive game, dotted green/red by how it was answered
+const DifficultyCurve: React.FC<DifficultyCurveProps> = ({ questions, answers, title, tierLabels }) => {
+  if (questions.length === 0) return null;
+
+  const top = DIFFICULTY_TIERS.length - 1;
+  const point = (q: GeneratedQuestion, i: number) => ({
+    x: PAD + i * STEP_X,
+    y: PAD + (top - DIFFICULTY_TIERS.indexOf(q.difficulty)) * STEP_Y,
+  });
+  const points = questions.map(point);
+  const width = PAD * 2 + (questions.length - 1) * STEP_X;
+  const height = PAD * 2 + top * STEP_Y;
+
+  return (
+    <div className="w-full max-w-md mx-auto text-left">
+      <div className="text-sm text-slate-400 mb-2">{title}</div>
+      <div className="flex gap-3">
+        <div className="flex flex-col justify-between text-xs text-slate-500 py-1" style={{ height }}>
+          {[...DIFFICULTY_TIERS].reverse().map((tier) => (
+            <span key={tier}>{tierLabels[tier]}</span>
+          ))}
+        </div>
+        <div className="flex-1 overflow-x-auto">
+          <svg width={width} height={height} role="img" aria-label={title}>
+            {DIFFICULTY_TIERS.map((tier, i) => (
+              <line key={tier} x1={0} x2={width} y1={PAD + i * STEP_Y} y2={PAD + i * STEP_Y} className="stroke-slate-700" strokeDasharray="2 4" />
+            ))}
+            <polyline
+              points={points.map(p => `${p.x},${p.y}`).join(' ')}
+              fill="none"
+              className="stroke-indigo-400"
+              strokeWidth={2}
+            />
+            {points.map((p, i) => {
+              const verdict = answers.find(a => a.questionIndex === i)?.verdict;
+              const color = verdict === 'correct' ? 'fill-green-400' : verdict === 'incorrect' ? 'fill-red-400' : 'fill-slate-500';
+              return (
+                <circle key={i} cx={p.x} cy={p.y} r={6} className={color}>
+                  <title>Q{i + 1}: {tierLabels[questions[i].difficulty]}</title>
+                </circle>
+              );
+            })}
+          </svg>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DifficultyCurve;
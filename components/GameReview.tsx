@@ -0,0 +1,111 @@
+import React from 'react';
+import { AnswerRecord, GeneratedQuestion, GroundingSource, LanguageCode } from '../types';
+import { t } from '../services/i18n';
+
+interface GameReviewProps {
+  questions: GeneratedQuestion[];
+  answers: AnswerRecord[];
+  sources: GroundingSource[];
+  onDispute?: (questionIndex: number) => void;
+  disputingIndex?: number | null;
+  lang: LanguageCode;
+}
+
+const CitationLinks: React.FC<{ ids: string[]; sources: GroundingSource[]; label: string }> = ({ ids, sources, label }) => {
+  const cited = ids
+    .map(id => ({ id, source: sources.find(s => s.id === id), number: sources.findIndex(s => s.id === id) + 1 }))
+    .filter(c => c.source);
+  if (cited.length === 0) return null;
+
+  return (
+    <span className="inline-flex flex-wrap gap-1 ml-1 align-middle" aria-label={label}>
+      {cited.map(({ id, source, number }) => (
+        <a
+          key={id}
+          href={source!.uri}
+          target="_blank"
+          rel="noopener noreferrer"
+          title={source!.title}
+          className="px-1.5 rounded bg-slate-700 hover:bg-slate-600 text-[10px] text-indigo-300"
+        >
+          {number}
+        </a>
+      ))}
+    </span>
+  );
+};
+
+// Post-game walk-through of every question with the player's answer and the sources behind the key
+const GameReview: React.FC<GameReviewProps> = ({ questions, answers, sources, onDispute, disputingIndex = null, lang }) => {
+  return (
+    <div className="text-left max-w-md w-full">
+      <ul className="space-y-3 mb-4">
+        {questions.map((q, idx) => {
+          const record = answers.find(a => a.questionIndex === idx);
+          return (
+            <li key={idx} className="text-sm text-slate-300 flex gap-2 p-3 rounded-xl bg-slate-900/50 border border-slate-700">
+              <span className={record?.verdict === 'correct' ? 'text-green-400' : record ? 'text-red-400' : 'text-slate-500'}>
+                {record?.verdict === 'correct' ? '✓' : record ? '✗' : '–'}
+              </span>
+              <div className="flex-1 min-w-0">
+                <div className="text-white">{q.question}</div>
+                <div className="text-xs text-slate-400 mt-1">
+                  {record
+                    ? record.player
+                      ? t(lang, 'playerSaid', { player: record.player, answer: record.userAnswer })
+                      : t(lang, 'youSaid', { answer: record.userAnswer })
+                    : t(lang, 'notAnswered')}
+                </div>
+                <div className="text-xs text-slate-400">
+                  {t(lang, 'answerLabel')} <span className="text-slate-200">{q.answer}</span>
+                  <CitationLinks ids={q.citations?.answer ?? []} sources={sources} label={t(lang, 'answerSources')} />
+                </div>
+                <div className="text-xs text-slate-500 italic mt-1">
+                  {q.context}
+                  <CitationLinks ids={q.citations?.context ?? []} sources={sources} label={t(lang, 'factSources')} />
+                </div>
+                {record?.dispute && (
+                  <div className={`text-xs mt-2 p-2 rounded-lg ${record.dispute.userAnswerCorrect ? 'bg-green-500/10 text-green-300' : 'bg-slate-800 text-slate-400'}`}>
+                    <span className="font-bold">
+                      {t(lang, record.dispute.userAnswerCorrect ? 'disputeUpheld' : 'disputeRejected')}
+                    </span>
+                    {!record.dispute.keyIsCorrect && <> {t(lang, 'verifiedAnswer')} <span className="text-slate-200">{record.dispute.correctAnswer}</span>.</>}
+                    {record.dispute.explanation && <> {record.dispute.explanation}</>}
+                    <CitationLinks ids={record.dispute.sources.map(s => s.id)} sources={record.dispute.sources} label={t(lang, 'factCheckSources')} />
+                  </div>
+                )}
+                {onDispute && record && record.verdict === 'incorrect' && !record.dispute && (
+                  <button
+                    onClick={() => onDispute(idx)}
+                    disabled={disputingIndex !== null}
+                    className="mt-2 px-2 py-1 rounded-lg border border-amber-500/50 text-amber-300 hover:bg-amber-500/10 text-xs disabled:opacity-50 transition-all"
+                  >
+                    {t(lang, disputingIndex === idx ? 'checking' : 'dispute')}
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {sources.length > 0 && (
+        <details className="mb-4">
+          <summary className="text-xs text-slate-500 cursor-pointer">{t(lang, 'allSources', { count: sources.length })}</summary>
+          <ol className="mt-2 space-y-1 text-xs list-decimal list-inside">
+            {sources.map((s) => (
+              <li key={s.id} className="truncate">
+                <a href={s.uri} target="_blank" rel="noopener noreferrer" className="text-indigo-300 hover:text-indigo-200">
+                  {s.title}
+                </a>
+                {s.domain && <span className="text-slate-500"> · {s.domain}</span>}
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default GameReview;
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { GameRecord, LanguageCode } from '../types';
+import { deleteGame, listGames } from '../services/historyStore';
+import { accuracy, computeStats } from '../services/stats';
+import { t } from '../services/i18n';
+
+interface HistoryScreenProps {
+  onBack: () => void;
+  onReplay: (game: GameRecord) => void;
+  lang: LanguageCode;
+}
+
+const HistoryScreen: React.FC<HistoryScreenProps> = ({ onBack, onReplay, lang }) => {
+  const [games, setGames] = useState<GameRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    listGames()
+      .then(setGames)
+      .catch((e) => {
+        console.error("Failed to load game history", e);
+        setLoadFailed(true);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    await deleteGame(id);
+    setGames(prev => prev.filter(g => g.id !== id));
+  };
+
+  const stats = computeStats(games);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto p-6 bg-slate-800/50 rounded-2xl border border-slate-700 shadow-2xl backdrop-blur-xl animate-fade-in">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-white">{t(lang, 'yourStats')}</h2>
+        <button onClick={onBack} className="text-sm text-slate-400 hover:text-white transition-all">
+          {t(lang, 'back')}
+        </button>
+      </div>
+
+      {isLoading && <div className="text-slate-400 text-center py-8">{t(lang, 'loadingHistory')}</div>}
+      {loadFailed && <div className="text-red-400 text-center py-8">{t(lang, 'historyLoadFailed')}</div>}
+
+      {!isLoading && !loadFailed && games.length === 0 && (
+        <div className="text-slate-400 text-center py-8">{t(lang, 'noGames')}</div>
+      )}
+
+      {games.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+            {[
+              { label: t(lang, 'statGames'), value: stats.gamesPlayed },
+              { label: t(lang, 'statAccuracy'), value: `${accuracy(stats.correct, stats.answered)}%` },
+              { label: t(lang, 'currentStreak'), value: stats.currentStreak },
+              { label: t(lang, 'bestStreak'), value: stats.bestStreak },
+            ].map((card) => (
+              <div key={card.label} className="p-3 rounded-xl bg-slate-900/50 border border-slate-700 text-center">
+                <div className="text-2xl font-bold text-white">{card.value}</div>
+                <div className="text-xs text-slate-500 uppercase tracking-wider">{card.label}</div>
+              </div>
+            ))}
+          </div>
+
+          <h3 className="text-sm font-medium text-slate-300 mb-2">{t(lang, 'accuracyByTopic')}</h3>
+          <div className="space-y-2 mb-6">
+            {stats.topics.map((topic) => {
+              const pct = accuracy(topic.correct, topic.answered);
+              return (
+                <div key={topic.topic} className="text-sm">
+                  <div className="flex justify-between text-slate-300 mb-1">
+                    <span className="truncate">{topic.topic}</span>
+                    <span className="text-slate-500">{pct}% · {t(lang, topic.games === 1 ? 'gameCountOne' : 'gameCountMany', { count: topic.games })}</span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-slate-900/50 overflow-hidden">
+                    <div className="h-full bg-gradient-to-r from-indigo-500 to-purple-600" style={{ width: `${pct}%` }}></div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <h3 className="text-sm font-medium text-slate-300 mb-2">{t(lang, 'pastGames')}</h3>
+          <ul className="space-y-2 max-h-72 overflow-y-auto">
+            {games.map((g) => {
+              const correct = g.answers.filter(a => a.verdict === 'correct').length;
+              return (
+                <li key={g.id} className="flex items-center gap-3 p-3 rounded-xl bg-slate-900/50 border border-slate-700">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-white font-semibold truncate">{g.config.topic}</div>
+                    <div className="text-xs text-slate-500">
+                      {new Date(g.endedAt).toLocaleString(lang)} · {g.config.personality.name} · {correct}/{g.questions.length}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => onReplay(g)}
+                    className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold transition-all"
+                  >
+                    {t(lang, 'replay')}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(g.id)}
+                    className="px-2 py-1.5 rounded-lg text-slate-500 hover:text-red-400 text-xs transition-all"
+                    aria-label={t(lang, 'deleteGame', { topic: g.config.topic })}
+                  >
+                    ✕
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HistoryScreen;
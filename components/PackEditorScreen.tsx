@@ -0,0 +1,99 @@
+import React, { useRef, useState } from 'react';
+import { LanguageCode, QuestionPack } from '../types';
+import QuestionEditor from './QuestionEditor';
+import { PackImportError } from '../services/errors';
+import { importPackFile, serializePack, validatePack } from '../services/questionPacks';
+import { downloadFile, toFilename } from '../services/download';
+import { LocalizedMessage, localize, t } from '../services/i18n';
+
+interface PackEditorScreenProps {
+  pack: QuestionPack;
+  onSave: (pack: QuestionPack) => void;
+  onCancel: () => void;
+  lang: LanguageCode;
+}
+
+const inputClass = "w-full px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-white placeholder-slate-500 transition-all";
+
+const PackEditorScreen: React.FC<PackEditorScreenProps> = ({ pack: initialPack, onSave, onCancel, lang }) => {
+  const [pack, setPack] = useState<QuestionPack>(initialPack);
+  const [problems, setProblems] = useState<LocalizedMessage[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<QuestionPack>) => setPack(prev => ({ ...prev, ...changes }));
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPack(await importPackFile(file));
+      setProblems([]);
+    } catch (err) {
+      console.error("Pack import failed", err);
+      setProblems(err instanceof PackImportError ? [err.problem, ...err.problems] : [{ key: 'packReadFailed' }]);
+    }
+  };
+
+  const handleSave = () => {
+    const errors = validatePack(pack);
+    setProblems(errors);
+    if (errors.length === 0) onSave(pack);
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto p-6 bg-slate-800/50 rounded-2xl border border-slate-700 shadow-2xl backdrop-blur-xl animate-fade-in">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-white">{t(lang, 'questionPack')}</h2>
+        <button onClick={onCancel} className="text-sm text-slate-400 hover:text-white transition-all">
+          {t(lang, 'back')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+        <input value={pack.title} onChange={(e) => update({ title: e.target.value })} className={inputClass} placeholder={t(lang, 'packTitle')} />
+        <input value={pack.topic} onChange={(e) => update({ topic: e.target.value })} className={inputClass} placeholder={t(lang, 'packTopic')} />
+        <input value={pack.author ?? ''} onChange={(e) => update({ author: e.target.value })} className={inputClass} placeholder={t(lang, 'packAuthor')} />
+        <input value={pack.description ?? ''} onChange={(e) => update({ description: e.target.value })} className={inputClass} placeholder={t(lang, 'packDescription')} />
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        <input ref={fileInputRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleImport} className="hidden" />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 py-2 rounded-xl bg-slate-700 hover:bg-slate-600 text-white text-sm font-semibold transition-all"
+        >
+          {t(lang, 'importPack')}
+        </button>
+        <button
+          type="button"
+          onClick={() => downloadFile(toFilename(pack.title, 'json'), serializePack(pack), 'application/json')}
+          disabled={pack.questions.length === 0}
+          className="px-4 py-2 rounded-xl bg-slate-700 hover:bg-slate-600 text-white text-sm font-semibold disabled:opacity-50 transition-all"
+        >
+          {t(lang, 'exportShort')}
+        </button>
+      </div>
+
+      <div className="max-h-[50vh] overflow-y-auto mb-6 pr-1">
+        <QuestionEditor questions={pack.questions} onChange={(questions) => update({ questions })} lang={lang} />
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="mb-4 text-sm text-red-400 list-disc list-inside text-left">
+          {problems.map((p, i) => <li key={i}>{localize(lang, p)}</li>)}
+        </ul>
+      )}
+
+      <button
+        onClick={handleSave}
+        className="w-full py-4 bg-gradient-to-r from-indigo-500 to-purple-600 text-white rounded-xl font-bold text-lg shadow-lg shadow-indigo-500/25 transition-all"
+      >
+        {t(lang, 'useThisPack')}
+      </button>
+    </div>
+  );
+};
+
+export default PackEditorScreen;
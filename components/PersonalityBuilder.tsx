@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { HostPersonality, LanguageCode } from '../types';
+import { HOST_VOICES, validatePersonality } from '../services/personalities';
+import { LANGUAGES, LocalizedMessage, localize, t } from '../services/i18n';
+import { triviaProvider } from '../services/triviaProvider';
+
+interface PersonalityBuilderProps {
+  personality: HostPersonality;
+  onSave: (personality: HostPersonality) => void;
+  onCancel: () => void;
+  lang: LanguageCode;
+}
+
+const inputClass = "w-full px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-white placeholder-slate-500 transition-all";
+
+// Form for creating or editing a custom host, with a spoken preview of the chosen voice
+const PersonalityBuilder: React.FC<PersonalityBuilderProps> = ({ personality: initial, onSave, onCancel, lang }) => {
+  const [personality, setPersonality] = useState<HostPersonality>(initial);
+  const [catchphrasesText, setCatchphrasesText] = useState(initial.catchphrases.join('\n'));
+  const [problems, setProblems] = useState<LocalizedMessage[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  const update = (changes: Partial<HostPersonality>) => setPersonality(prev => ({ ...prev, ...changes }));
+
+  const withCatchphrases = (): HostPersonality => ({
+    ...personality,
+    catchphrases: catchphrasesText.split('\n').map(c => c.trim()).filter(Boolean),
+  });
+
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    // Spoken in the host's own language, like the game itself
+    const name = personality.name.trim() || t(personality.language, 'yourHost');
+    const line = withCatchphrases().catchphrases[0] ?? '';
+    const buffer = await triviaProvider.generateSummarySpeech(t(personality.language, 'hostPreviewLine', { name, line }), personality.voice);
+    if (!buffer) {
+      setIsPreviewing(false);
+      return;
+    }
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: buffer.sampleRate });
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.onended = () => {
+      ctx.close();
+      setIsPreviewing(false);
+    };
+    source.start();
+  };
+
+  const handleSave = () => {
+    const result = withCatchphrases();
+    const errors = validatePersonality(result);
+    setProblems(errors);
+    if (errors.length === 0) onSave(result);
+  };
+
+  return (
+    <div
+      className="space-y-3 p-4 rounded-xl bg-slate-900/50 border border-indigo-500/40"
+      // The builder sits inside the setup form, so Enter in a field must not start the game
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' && (e.target as HTMLElement).tagName === 'INPUT') e.preventDefault();
+      }}
+    >
+      <div className="grid grid-cols-2 gap-3">
+        <input value={personality.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} placeholder={t(lang, 'hostName')} />
+        <select value={personality.language} onChange={(e) => update({ language: e.target.value as LanguageCode })} className={inputClass}>
+          {LANGUAGES.map((l) => (
+            <option key={l.code} value={l.code}>{l.nativeName}</option>
+          ))}
+        </select>
+      </div>
+      <input value={personality.description} onChange={(e) => update({ description: e.target.value })} className={inputClass} placeholder={t(lang, 'hostDescription')} />
+      <textarea
+        value={personality.prompt}
+        onChange={(e) => update({ prompt: e.target.value })}
+        rows={4}
+        className={inputClass}
+        placeholder={t(lang, 'hostPrompt')}
+      />
+      <textarea
+        value={catchphrasesText}
+        onChange={(e) => setCatchphrasesText(e.target.value)}
+        rows={2}
+        className={inputClass}
+        placeholder={t(lang, 'catchphrasesPlaceholder')}
+      />
+      <div className="flex gap-2">
+        <select
+          value={personality.voice}
+          onChange={(e) => update({ voice: e.target.value as HostPersonality['voice'] })}
+          className={`${inputClass} flex-1`}
+        >
+          {HOST_VOICES.map((v) => (
+            <option key={v.id} value={v.id}>{v.id} · {t(lang, v.desc)}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={isPreviewing}
+          className="px-4 rounded-xl bg-slate-700 hover:bg-slate-600 text-white text-sm font-semibold disabled:opacity-50 transition-all"
+        >
+          {t(lang, isPreviewing ? 'playing' : 'preview')}
+        </button>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="text-xs text-red-300 space-y-1">
+          {problems.map((p) => <li key={p.key}>{localize(lang, p)}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-xl text-slate-400 hover:text-white text-sm transition-all">
+          {t(lang, 'cancel')}
+        </button>
+        <button type="button" onClick={handleSave} className="px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold transition-all">
+          {t(lang, 'saveHost')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PersonalityBuilder;
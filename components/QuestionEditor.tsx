@@ -0,0 +1,132 @@
+import React from 'react';
+import { Difficulty, GeneratedQuestion, LanguageCode, QuestionType } from '../types';
+import { emptyQuestion } from '../services/questionPacks';
+import { MessageKey, t } from '../services/i18n';
+
+interface QuestionEditorProps {
+  questions: GeneratedQuestion[];
+  onChange: (questions: GeneratedQuestion[]) => void;
+  lang: LanguageCode;
+}
+
+const TYPE_LABELS: Record<QuestionType, MessageKey> = {
+  open: 'typeOpen',
+  multiple_choice: 'typeMultipleChoice',
+  true_false: 'typeTrueFalse',
+  numeric: 'typeNumeric',
+};
+
+const inputClass = "w-full px-3 py-2 bg-slate-900/50 border border-slate-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-white text-sm placeholder-slate-500 transition-all";
+
+const QuestionEditor: React.FC<QuestionEditorProps> = ({ questions, onChange, lang }) => {
+  const update = (index: number, changes: Partial<GeneratedQuestion>) => {
+    onChange(questions.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= questions.length) return;
+    const next = [...questions];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const remove = (index: number) => {
+    onChange(questions.filter((_, i) => i !== index));
+  };
+
+  const changeType = (index: number, type: QuestionType) => {
+    const q = questions[index];
+    update(index, {
+      type,
+      choices: type === 'multiple_choice' ? (q.choices?.length ? q.choices : [q.answer, '', '', '']) : undefined,
+      answer: type === 'true_false' && !/^(true|false)$/i.test(q.answer) ? 'True' : q.answer,
+    });
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      {questions.map((q, idx) => (
+        <div key={idx} className="p-3 rounded-xl bg-slate-900/50 border border-slate-700 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-bold text-slate-500 w-6">Q{idx + 1}</span>
+            <select
+              value={q.type}
+              onChange={(e) => changeType(idx, e.target.value as QuestionType)}
+              className="px-2 py-1 bg-slate-900/50 border border-slate-600 rounded-lg text-xs text-white"
+            >
+              {(Object.keys(TYPE_LABELS) as QuestionType[]).map((type) => (
+                <option key={type} value={type}>{t(lang, TYPE_LABELS[type])}</option>
+              ))}
+            </select>
+            <select
+              value={q.difficulty}
+              onChange={(e) => update(idx, { difficulty: e.target.value as Difficulty })}
+              className="px-2 py-1 bg-slate-900/50 border border-slate-600 rounded-lg text-xs text-white"
+            >
+              <option value="easy">{t(lang, 'easy')}</option>
+              <option value="medium">{t(lang, 'medium')}</option>
+              <option value="hard">{t(lang, 'hard')}</option>
+            </select>
+            <div className="flex-1"></div>
+            <button type="button" onClick={() => move(idx, -1)} disabled={idx === 0} className="px-2 text-slate-400 hover:text-white disabled:opacity-30" aria-label={t(lang, 'moveUp')}>↑</button>
+            <button type="button" onClick={() => move(idx, 1)} disabled={idx === questions.length - 1} className="px-2 text-slate-400 hover:text-white disabled:opacity-30" aria-label={t(lang, 'moveDown')}>↓</button>
+            <button type="button" onClick={() => remove(idx)} className="px-2 text-slate-500 hover:text-red-400" aria-label={t(lang, 'deleteQuestion')}>✕</button>
+          </div>
+          <textarea
+            value={q.question}
+            onChange={(e) => update(idx, { question: e.target.value })}
+            rows={2}
+            className={inputClass}
+            placeholder={t(lang, 'questionPlaceholder')}
+          />
+          {q.type === 'multiple_choice' && (
+            <div className="grid grid-cols-2 gap-2">
+              {(q.choices ?? []).map((choice, ci) => (
+                <input
+                  key={ci}
+                  value={choice}
+                  onChange={(e) => update(idx, { choices: (q.choices ?? []).map((c, j) => (j === ci ? e.target.value : c)) })}
+                  className={inputClass}
+                  placeholder={t(lang, 'optionPlaceholder', { letter: String.fromCharCode(65 + ci) })}
+                />
+              ))}
+            </div>
+          )}
+          {q.type === 'true_false' ? (
+            <select
+              value={/^false$/i.test(q.answer) ? 'False' : 'True'}
+              onChange={(e) => update(idx, { answer: e.target.value })}
+              className={inputClass}
+            >
+              <option value="True">{t(lang, 'answerTrue')}</option>
+              <option value="False">{t(lang, 'answerFalse')}</option>
+            </select>
+          ) : (
+            <input
+              value={q.answer}
+              onChange={(e) => update(idx, { answer: e.target.value })}
+              className={inputClass}
+              placeholder={t(lang, q.type === 'multiple_choice' ? 'answerMatchOption' : 'answerPlaceholder')}
+            />
+          )}
+          <input
+            value={q.context}
+            onChange={(e) => update(idx, { context: e.target.value })}
+            className={inputClass}
+            placeholder={t(lang, 'factPlaceholder')}
+          />
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...questions, emptyQuestion()])}
+        className="w-full py-2 rounded-xl border border-dashed border-slate-600 text-slate-400 hover:text-white hover:border-slate-400 text-sm transition-all"
+      >
+        {t(lang, 'addQuestion')}
+      </button>
+    </div>
+  );
+};
+
+export default QuestionEditor;
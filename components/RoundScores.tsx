@@ -0,0 +1,37 @@
+import React from 'react';
+import { LanguageCode, RoundScore } from '../types';
+import { t } from '../services/i18n';
+
+interface RoundScoresProps {
+  scores: RoundScore[];
+  showPoints?: boolean; // Timed games also show points, which include speed bonuses
+  lang: LanguageCode;
+}
+
+// One row per round of a multi-round game, with the best round starred
+const RoundScores: React.FC<RoundScoresProps> = ({ scores, showPoints = false, lang }) => {
+  const best = Math.max(0, ...scores.map(s => (showPoints ? s.points : s.correct)));
+
+  return (
+    <div className="w-full max-w-md mx-auto text-left">
+      <div className="text-sm text-slate-400 mb-2">{t(lang, 'roundByRound')}</div>
+      <div className="space-y-1">
+        {scores.map((s) => (
+          <div key={s.round} className="flex items-center justify-between px-3 py-2 rounded-xl bg-slate-900/50 border border-slate-700 text-sm">
+            <span className="text-white truncate">
+              <span className="text-slate-500 mr-2">{s.round + 1}.</span>
+              {s.topic}
+              {best > 0 && (showPoints ? s.points : s.correct) === best && <span className="ml-1 text-amber-300" aria-label={t(lang, 'bestRound')}>★</span>}
+            </span>
+            <span className="text-slate-400 shrink-0 ml-3">
+              <span className="text-green-400 font-bold">{s.correct}</span> / {s.total}
+              {showPoints && <span className="text-indigo-300"> · {t(lang, 'pointsShort', { points: s.points })}</span>}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RoundScores;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { LanguageCode, PlayerScore } from '../types';
+import { t } from '../services/i18n';
+
+interface ScoreboardProps {
+  scores: PlayerScore[];
+  activePlayer?: string | null;
+  showPoints?: boolean; // Timed games rank by points, which include speed bonuses
+  lang: LanguageCode;
+}
+
+const Scoreboard: React.FC<ScoreboardProps> = ({ scores, activePlayer, showPoints = false, lang }) => {
+  const topScore = scores.length > 0 ? scores[0].points : 0;
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+      {scores.map((s) => (
+        <div
+          key={s.player}
+          className={`px-3 py-2 rounded-xl border text-left transition-all ${
+            s.player === activePlayer
+              ? 'bg-indigo-600/30 border-indigo-500'
+              : 'bg-slate-900/50 border-slate-700'
+          }`}
+        >
+          <div className="text-sm font-semibold text-white truncate">
+            {s.player}
+            {topScore > 0 && s.points === topScore && <span className="ml-1" aria-label={t(lang, 'leader')}>★</span>}
+          </div>
+          <div className="text-xs text-slate-400">
+            <span className="text-green-400 font-bold">{s.correct}</span> / {s.answered} {t(lang, 'correctLabel')}
+            {showPoints && <span className="text-indigo-300"> · {t(lang, 'pointsShort', { points: s.points })}</span>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default Scoreboard;
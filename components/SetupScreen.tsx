@@ -1,29 +1,170 @@
-import React, { useState } from 'react';
-import { TriviaConfig } from '../types';
+import React, { useMemo, useState } from 'react';
+import { TriviaConfig, Difficulty, QuestionType, TurnMode, QuestionPack, HostPersonality, LanguageCode, InputMode } from '../types';
+import PersonalityBuilder from './PersonalityBuilder';
+import {
+  BUILT_IN_PERSONALITIES,
+  deleteCustomPersonality,
+  emptyPersonality,
+  loadCustomPersonalities,
+  saveCustomPersonality,
+} from '../services/personalities';
+import { LANGUAGES, MessageKey, languageName, t } from '../services/i18n';
+import { ENDLESS_LIVES } from '../services/endless';
+import { dueReviewCards } from '../services/reviewDeck';
+import { DEFAULT_WHEEL_SPINS, MAX_ROUNDS, roundsTopic, spinCategoryWheel } from '../services/rounds';
+import { sanitizeUserText } from '../services/prompts';
 
 interface SetupScreenProps {
   onStart: (config: TriviaConfig) => void;
+  onShowHistory?: (lang: LanguageCode) => void; // lang: the interface language picked here
+  pack?: QuestionPack | null; // When set, the game uses these questions instead of generating new ones
+  onEditPack?: (lang: LanguageCode) => void;
+  onClearPack?: () => void;
   isLoading: boolean;
 }
 
-const PERSONALITIES = [
-  { id: 'enthusiastic', name: 'Enthusiastic Host', desc: 'High energy, super encouraging!' },
-  { id: 'sarcastic', name: 'Sarcastic Robot', desc: 'Dry wit, mild roasting included.' },
-  { id: 'dramatic', name: 'Dramatic Narrator', desc: 'Treats every question like a movie trailer.' },
-  { id: 'professor', name: 'Strict Professor', desc: 'Demands precision, offers detailed facts.' },
+const QUESTION_COUNTS = [3, 5, 7, 10];
+const ENDLESS = 'endless'; // Question count option for a game that runs until the player is out of lives
+
+const INPUT_MODES: { id: InputMode; name: MessageKey }[] = [
+  { id: 'voice', name: 'voiceInput' },
+  { id: 'text', name: 'typedInput' },
+];
+
+const TIME_LIMITS = [0, 15, 30, 60]; // Seconds per question; 0 turns the clock off
+
+const DIFFICULTIES: { id: Difficulty; name: MessageKey }[] = [
+  { id: 'easy', name: 'easy' },
+  { id: 'medium', name: 'medium' },
+  { id: 'hard', name: 'hard' },
+];
+
+const QUESTION_TYPES: { id: QuestionType; name: MessageKey }[] = [
+  { id: 'open', name: 'typeOpen' },
+  { id: 'multiple_choice', name: 'typeMultipleChoice' },
+  { id: 'true_false', name: 'typeTrueFalse' },
+  { id: 'numeric', name: 'typeNumeric' },
 ];
 
-const SetupScreen: React.FC<SetupScreenProps> = ({ onStart, isLoading }) => {
+const TURN_MODES: { id: TurnMode; name: MessageKey; desc: MessageKey }[] = [
+  { id: 'turns', name: 'takeTurns', desc: 'takeTurnsDesc' },
+  { id: 'buzz_in', name: 'buzzIn', desc: 'buzzInDesc' },
+];
+
+const MAX_PLAYERS = 8;
+
+const SetupScreen: React.FC<SetupScreenProps> = ({ onStart, onShowHistory, pack, onEditPack, onClearPack, isLoading }) => {
   const [topic, setTopic] = useState('Space Exploration');
-  const [personality, setPersonality] = useState(PERSONALITIES[0].id);
+  const [customPersonalities, setCustomPersonalities] = useState<HostPersonality[]>(loadCustomPersonalities);
+  const [personalityId, setPersonalityId] = useState(BUILT_IN_PERSONALITIES[0].id);
+  const [editingPersonality, setEditingPersonality] = useState<HostPersonality | null>(null);
+  const [questionCount, setQuestionCount] = useState(5);
+  const [difficulty, setDifficulty] = useState<Difficulty>('medium');
+  const [questionType, setQuestionType] = useState<QuestionType>('open');
+  const [players, setPlayers] = useState<string[]>([]);
+  const [playerName, setPlayerName] = useState('');
+  const [turnMode, setTurnMode] = useState<TurnMode>('turns');
+  const [timeLimitSeconds, setTimeLimitSeconds] = useState(0);
+  const [inputMode, setInputMode] = useState<InputMode>('voice');
+  const [textReplies, setTextReplies] = useState(false);
+  const [recordSession, setRecordSession] = useState(false);
+  const [familyFriendly, setFamilyFriendly] = useState(false);
+  const [adaptive, setAdaptive] = useState(false);
+  const [endless, setEndless] = useState(false);
+  const [rounds, setRounds] = useState<string[] | null>(null); // One topic per round; null for a single-topic game
+  const [language, setLanguage] = useState<LanguageCode>(BUILT_IN_PERSONALITIES[0].language);
+  const [nativeLanguage, setNativeLanguage] = useState<LanguageCode | null>(null); // Set in language learning mode
+
+  const lang = nativeLanguage ?? language;
+  const dueCount = useMemo(() => dueReviewCards(language).length, [language]);
+
+  // Learning a language you already speak makes no sense, so swap the pair instead
+  const changeLanguage = (next: LanguageCode) => {
+    if (nativeLanguage === next) setNativeLanguage(language);
+    setLanguage(next);
+  };
+
+  const toggleRounds = () => {
+    if (rounds) {
+      setTopic(rounds.find(r => r.trim()) ?? topic);
+      setRounds(null);
+      return;
+    }
+    // Rounds already give the game its variety, so they replace endless and adaptive play
+    setEndless(false);
+    setAdaptive(false);
+    setRounds([topic, '']);
+  };
+
+  const updateRound = (index: number, value: string) =>
+    setRounds(prev => prev && prev.map((r, i) => (i === index ? value : r)));
+
+  const handleSpinWheel = () =>
+    setRounds(prev => spinCategoryWheel(Math.max(prev?.length ?? 0, DEFAULT_WHEEL_SPINS)));
+
+  const addPlayer = () => {
+    const name = sanitizeUserText(playerName);
+    if (!name || players.length >= MAX_PLAYERS) return;
+    if (players.some(p => p.toLowerCase() === name.toLowerCase())) return;
+    setPlayers([...players, name]);
+    setPlayerName('');
+  };
+
+  const removePlayer = (name: string) => {
+    setPlayers(players.filter(p => p !== name));
+  };
+
+  const personalities = [...BUILT_IN_PERSONALITIES, ...customPersonalities];
+  const personality = personalities.find(p => p.id === personalityId) ?? BUILT_IN_PERSONALITIES[0];
+
+  // Hosts come with a preferred language, so picking one switches the game to it
+  const selectPersonality = (p: HostPersonality) => {
+    setPersonalityId(p.id);
+    changeLanguage(p.language);
+  };
+
+  const handleSavePersonality = (saved: HostPersonality) => {
+    setCustomPersonalities(saveCustomPersonality(saved));
+    selectPersonality(saved);
+    setEditingPersonality(null);
+  };
+
+  const handleDeletePersonality = (id: string) => {
+    setCustomPersonalities(deleteCustomPersonality(id));
+    if (personalityId === id) setPersonalityId(BUILT_IN_PERSONALITIES[0].id);
+  };
+
+  // Host, language and answer settings shared by every kind of game
+  const sessionOptions = () => ({
+    language,
+    inputMode,
+    textReplies: inputMode === 'text' && textReplies,
+    recordSession,
+    ...(familyFriendly ? { familyFriendly } : {}),
+    ...(nativeLanguage ? { nativeLanguage } : {}),
+    ...(timeLimitSeconds ? { timeLimitSeconds } : {}),
+  });
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (topic && personality) {
-      onStart({ topic, personality });
+    const options = sessionOptions();
+    if (pack) {
+      onStart({ topic: pack.topic, personality, questionCount: pack.questions.length, difficulty, questionType, players, turnMode, ...options });
+    } else if (rounds) {
+      const topics = rounds.map(r => r.trim()).filter(Boolean);
+      if (topics.length === 0) return;
+      const roundOptions = topics.length > 1 ? { topic: roundsTopic(topics), rounds: topics } : { topic: topics[0] };
+      onStart({ ...roundOptions, personality, questionCount, difficulty, questionType, players, turnMode, ...options });
+    } else if (topic) {
+      onStart({ topic, personality, questionCount, difficulty, questionType, players, turnMode, ...options, ...(endless ? { endless } : adaptive ? { adaptive } : {}) });
     }
   };
 
+  // Plays the review deck's due cards instead of new questions
+  const handleStartReview = () => {
+    onStart({ topic: t(lang, 'reviewTopic'), personality, questionCount: dueCount, difficulty, questionType, players, turnMode, ...sessionOptions(), review: true });
+  };
+
   return (
     <div className="w-full max-w-md mx-auto p-6 bg-slate-800/50 rounded-2xl border border-slate-700 shadow-2xl backdrop-blur-xl">
       <div className="text-center mb-8">
@@ -33,44 +174,412 @@ const SetupScreen: React.FC<SetupScreenProps> = ({ onStart, isLoading }) => {
           </svg>
         </div>
         <h1 className="text-3xl font-bold text-white mb-2">TrivAI Live</h1>
-        <p className="text-slate-400">Voice-powered trivia with Gemini 2.5</p>
+        <p className="text-slate-400">{t(lang, 'tagline')}</p>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-6">
+        {pack ? (
+          <div className="p-4 rounded-xl bg-indigo-500/10 border border-indigo-500/40">
+            <div className="text-xs text-indigo-300 uppercase tracking-wider mb-1">{t(lang, 'questionPack')}</div>
+            <div className="text-white font-semibold">{pack.title}</div>
+            <div className="text-xs text-slate-400 mb-3">{t(lang, 'packSummary', { count: pack.questions.length, topic: pack.topic })}</div>
+            <div className="flex gap-2">
+              <button type="button" onClick={() => onEditPack?.(lang)} disabled={isLoading} className="px-3 py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-white text-xs font-semibold transition-all disabled:opacity-50">
+                {t(lang, 'edit')}
+              </button>
+              <button type="button" onClick={onClearPack} disabled={isLoading} className="px-3 py-1.5 rounded-lg text-slate-400 hover:text-white text-xs transition-all disabled:opacity-50">
+                {t(lang, 'generateInstead')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div>
+              <div className="flex justify-between items-baseline mb-2">
+                <label className="block text-sm font-medium text-slate-300">{t(lang, 'chooseTopic')}</label>
+                <button type="button" onClick={toggleRounds} className="text-xs text-indigo-400 hover:text-indigo-300 transition-all">
+                  {rounds ? t(lang, 'singleTopic') : t(lang, 'multipleRounds')}
+                </button>
+              </div>
+              {rounds ? (
+                <div className="space-y-2">
+                  {rounds.map((round, i) => (
+                    <div key={i} className="flex gap-2">
+                      <input
+                        type="text"
+                        value={round}
+                        onChange={(e) => updateRound(i, e.target.value)}
+                        className="flex-1 px-4 py-2 bg-slate-900/50 border border-slate-600 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-white placeholder-slate-500 transition-all"
+                        placeholder={t(lang, 'roundPlaceholder', { number: i + 1 })}
+                      />
+                      {rounds.length > 2 && (
+                        <button
+                          type="button"
+                          onClick={() => setRounds(rounds.filter((_, j) => j !== i))}
+                          className="px-2 text-slate-500 hover:text-red-400"
+                          aria-label={t(lang, 'removeRound', { number: i + 1 })}
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <div className="flex justify-between text-sm">
+                    {rounds.length < MAX_ROUNDS ? (
+                      <button type="button" onClick={() => setRounds([...rounds, ''])} className="text-slate-400 hover:text-white transition-all">
+                        {t(lang, 'addRound')}
+                      </button>
+                    ) : <span />}
+                    <button type="button" onClick={handleSpinWheel} className="text-amber-300 hover:text-amber-200 font-semibold transition-all">
+                      🎡 {t(lang, 'spinWheel')}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <input
+                  type="text"
+                  value={topic}
+                  onChange={(e) => setTopic(e.target.value)}
+                  className="w-full px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-white placeholder-slate-500 transition-all"
+                  placeholder={t(lang, 'topicPlaceholder')}
+                />
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">{t(lang, rounds ? 'questionsPerRound' : 'questions')}</label>
+                <select
+                  value={endless ? ENDLESS : questionCount}
+                  onChange={(e) => {
+                    setEndless(e.target.value === ENDLESS);
+                    if (e.target.value !== ENDLESS) setQuestionCount(Number(e.target.value));
+                  }}
+                  className="w-full px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-white transition-all"
+                >
+                  {QUESTION_COUNTS.map((n) => (
+                    <option key={n} value={n}>{t(lang, 'questionCountOption', { count: n })}</option>
+                  ))}
+                  {!rounds && <option value={ENDLESS}>{t(lang, 'endlessOption', { lives: ENDLESS_LIVES })}</option>}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">{t(lang, 'questionStyle')}</label>
+                <select
+                  value={questionType}
+                  onChange={(e) => setQuestionType(e.target.value as QuestionType)}
+                  className="w-full px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-white transition-all"
+                >
+                  {QUESTION_TYPES.map((qt) => (
+                    <option key={qt.id} value={qt.id}>{t(lang, qt.name)}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">{t(lang, 'difficulty')}</label>
+              <div className="grid grid-cols-3 gap-3">
+                {DIFFICULTIES.map((d) => (
+                  <button
+                    key={d.id}
+                    type="button"
+                    onClick={() => setDifficulty(d.id)}
+                    className={`p-2 rounded-xl border text-sm font-semibold transition-all ${
+                      difficulty === d.id
+                        ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-500/25'
+                        : 'bg-slate-900/50 border-slate-700 text-slate-300 hover:border-slate-500'
+                    }`}
+                  >
+                    {t(lang, d.name)}
+                  </button>
+                ))}
+              </div>
+              {!endless && !rounds && (
+                <label className="flex items-center gap-2 text-sm text-slate-300 mt-3">
+                  <input
+                    type="checkbox"
+                    checked={adaptive}
+                    onChange={(e) => setAdaptive(e.target.checked)}
+                    className="accent-indigo-500"
+                  />
+                  {t(lang, 'adaptiveDifficulty')}
+                </label>
+              )}
+              {adaptive && !endless && <p className="text-xs text-slate-500 mt-1">{t(lang, 'adaptiveDifficultyDesc')}</p>}
+            </div>
+
+            {onEditPack && (
+              <button
+                type="button"
+                onClick={() => onEditPack(lang)}
+                disabled={isLoading}
+                className="text-sm text-indigo-400 hover:text-indigo-300 transition-all disabled:opacity-50"
+              >
+                {t(lang, 'createPack')}
+              </button>
+            )}
+          </>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">{t(lang, 'players')} <span className="text-slate-500 font-normal">{t(lang, 'playersOptional')}</span></label>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={playerName}
+              onChange={(e) => setPlayerName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addPlayer();
+                }
+              }}
+              className="flex-1 px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-white placeholder-slate-500 transition-all"
+              placeholder={t(lang, 'addPlayerPlaceholder')}
+            />
+            <button
+              type="button"
+              onClick={addPlayer}
+              disabled={!playerName.trim() || players.length >= MAX_PLAYERS}
+              className="px-4 rounded-xl bg-slate-700 hover:bg-slate-600 text-white font-semibold disabled:opacity-50 transition-all"
+            >
+              {t(lang, 'add')}
+            </button>
+          </div>
+          {players.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {players.map((p) => (
+                <span key={p} className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-indigo-500/20 text-indigo-200 text-sm">
+                  {p}
+                  <button type="button" onClick={() => removePlayer(p)} className="text-indigo-300 hover:text-white" aria-label={t(lang, 'removePlayer', { name: p })}>
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          {players.length > 1 && (
+            <div className="grid grid-cols-2 gap-3 mt-3">
+              {TURN_MODES.map((m) => (
+                <button
+                  key={m.id}
+                  type="button"
+                  onClick={() => setTurnMode(m.id)}
+                  className={`p-3 rounded-xl border text-left transition-all ${
+                    turnMode === m.id
+                      ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-500/25'
+                      : 'bg-slate-900/50 border-slate-700 text-slate-300 hover:border-slate-500'
+                  }`}
+                >
+                  <div className="font-semibold text-sm">{t(lang, m.name)}</div>
+                  <div className={`text-xs ${turnMode === m.id ? 'text-indigo-200' : 'text-slate-500'}`}>{t(lang, m.desc)}</div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
         <div>
-          <label className="block text-sm font-medium text-slate-300 mb-2">Choose a Topic</label>
-          <input
-            type="text"
-            value={topic}
-            onChange={(e) => setTopic(e.target.value)}
-            className="w-full px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-white placeholder-slate-500 transition-all"
-            placeholder="e.g. 90s Pop Music, Quantum Physics..."
-          />
+          <label className="block text-sm font-medium text-slate-300 mb-2">{t(lang, 'answerTime')}</label>
+          <div className="grid grid-cols-4 gap-3">
+            {TIME_LIMITS.map((s) => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => setTimeLimitSeconds(s)}
+                className={`p-2 rounded-xl border text-sm font-semibold transition-all ${
+                  timeLimitSeconds === s
+                    ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-500/25'
+                    : 'bg-slate-900/50 border-slate-700 text-slate-300 hover:border-slate-500'
+                }`}
+              >
+                {s ? t(lang, 'seconds', { count: s }) : t(lang, 'untimed')}
+              </button>
+            ))}
+          </div>
         </div>
 
         <div>
-          <label className="block text-sm font-medium text-slate-300 mb-2">Host Personality</label>
-          <div className="grid grid-cols-1 gap-3">
-            {PERSONALITIES.map((p) => (
+          <label className="block text-sm font-medium text-slate-300 mb-2">{t(lang, 'answerBy')}</label>
+          <div className="grid grid-cols-2 gap-3">
+            {INPUT_MODES.map((m) => (
               <button
-                key={p.id}
+                key={m.id}
                 type="button"
-                onClick={() => setPersonality(p.id)}
-                className={`p-3 rounded-xl border text-left transition-all ${
-                  personality === p.id
+                onClick={() => setInputMode(m.id)}
+                className={`p-2 rounded-xl border text-sm font-semibold transition-all ${
+                  inputMode === m.id
                     ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-500/25'
                     : 'bg-slate-900/50 border-slate-700 text-slate-300 hover:border-slate-500'
                 }`}
               >
-                <div className="font-semibold">{p.name}</div>
-                <div className={`text-xs ${personality === p.id ? 'text-indigo-200' : 'text-slate-500'}`}>
-                  {p.desc}
-                </div>
+                {t(lang, m.name)}
               </button>
             ))}
           </div>
+          {inputMode === 'text' && (
+            <label className="flex items-center gap-2 text-sm text-slate-300 mt-3">
+              <input
+                type="checkbox"
+                checked={textReplies}
+                onChange={(e) => setTextReplies(e.target.checked)}
+                className="accent-indigo-500"
+              />
+              {t(lang, 'textReplies')}
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-sm text-slate-300 mt-3">
+            <input
+              type="checkbox"
+              checked={recordSession}
+              onChange={(e) => setRecordSession(e.target.checked)}
+              className="accent-indigo-500"
+            />
+            {t(lang, 'recordSession')}
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-300 mt-3">
+            <input
+              type="checkbox"
+              checked={familyFriendly}
+              onChange={(e) => setFamilyFriendly(e.target.checked)}
+              className="accent-indigo-500"
+            />
+            {t(lang, 'familyFriendly')}
+          </label>
+          {familyFriendly && <p className="text-xs text-slate-500 mt-1">{t(lang, 'familyFriendlyDesc')}</p>}
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">{t(lang, 'hostPersonality')}</label>
+          <div className="grid grid-cols-1 gap-3">
+            {personalities.map((p) => (
+              <div
+                key={p.id}
+                role="button"
+                tabIndex={0}
+                onClick={() => selectPersonality(p)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    selectPersonality(p);
+                  }
+                }}
+                className={`p-3 rounded-xl border text-left cursor-pointer transition-all ${
+                  personality.id === p.id
+                    ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-500/25'
+                    : 'bg-slate-900/50 border-slate-700 text-slate-300 hover:border-slate-500'
+                }`}
+              >
+                <div className="flex justify-between items-start gap-2">
+                  <div className="font-semibold">{p.name}</div>
+                  <div className={`text-xs ${personality.id === p.id ? 'text-indigo-200' : 'text-slate-500'}`}>
+                    {p.voice} · {languageName(p.language)}
+                  </div>
+                </div>
+                <div className={`text-xs ${personality.id === p.id ? 'text-indigo-200' : 'text-slate-500'}`}>
+                  {p.description}
+                </div>
+                {!p.builtIn && (
+                  <div className="flex gap-3 mt-2 text-xs">
+                    <button
+                      type="button"
+                      onClick={(e) => { e.stopPropagation(); setEditingPersonality(p); }}
+                      className="underline opacity-80 hover:opacity-100"
+                    >
+                      {t(lang, 'edit')}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={(e) => { e.stopPropagation(); handleDeletePersonality(p.id); }}
+                      className="underline opacity-80 hover:opacity-100"
+                    >
+                      {t(lang, 'delete')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          {editingPersonality ? (
+            <div className="mt-3">
+              <PersonalityBuilder
+                key={editingPersonality.id}
+                personality={editingPersonality}
+                onSave={handleSavePersonality}
+                onCancel={() => setEditingPersonality(null)}
+                lang={lang}
+              />
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setEditingPersonality(emptyPersonality())}
+              className="mt-3 text-sm text-indigo-400 hover:text-indigo-300 transition-all"
+            >
+              {t(lang, 'createHost')}
+            </button>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">{t(lang, 'language')}</label>
+          <div className="grid grid-cols-2 gap-3">
+            <select
+              value={language}
+              onChange={(e) => changeLanguage(e.target.value as LanguageCode)}
+              className="w-full px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-white transition-all"
+            >
+              {LANGUAGES.map((l) => (
+                <option key={l.code} value={l.code}>{l.nativeName}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={nativeLanguage !== null}
+                onChange={(e) => setNativeLanguage(e.target.checked ? (language === 'en' ? 'es' : 'en') : null)}
+                className="accent-indigo-500"
+              />
+              {t(lang, 'learningMode')}
+            </label>
+          </div>
+          {nativeLanguage !== null && (
+            <div className="mt-3">
+              <label className="block text-xs text-slate-400 mb-1">{t(lang, 'nativeLanguage')}</label>
+              <select
+                value={nativeLanguage}
+                onChange={(e) => setNativeLanguage(e.target.value as LanguageCode)}
+                className="w-full px-4 py-3 bg-slate-900/50 border border-slate-600 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-white transition-all"
+              >
+                {LANGUAGES.filter(l => l.code !== language).map((l) => (
+                  <option key={l.code} value={l.code}>{l.nativeName}</option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500 mt-1">
+                {t(lang, 'learningModeDesc', { language: LANGUAGES.find(l => l.code === language)?.nativeName ?? language })}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {!pack && dueCount > 0 && (
+          <div className="flex items-center justify-between gap-3 p-4 rounded-xl bg-amber-500/10 border border-amber-500/40">
+            <div>
+              <div className="text-sm font-semibold text-amber-300">{t(lang, 'reviewMode')}</div>
+              <div className="text-xs text-slate-400">{t(lang, 'reviewDue', { count: dueCount })}</div>
+            </div>
+            <button
+              type="button"
+              onClick={handleStartReview}
+              disabled={isLoading}
+              className="px-4 py-2 rounded-xl bg-amber-500 hover:bg-amber-400 text-slate-900 text-sm font-bold disabled:opacity-50 transition-all shrink-0"
+            >
+              {t(lang, 'startReview')}
+            </button>
+          </div>
+        )}
+
         <button
           type="submit"
           disabled={isLoading}
@@ -86,16 +595,27 @@ const SetupScreen: React.FC<SetupScreenProps> = ({ onStart, isLoading }) => {
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
               </svg>
-              Preparing Game...
+              {t(lang, 'preparing')}
             </span>
           ) : (
-            'Start Live Game'
+            t(lang, 'startGame')
           )}
         </button>
       </form>
       
+      {onShowHistory && (
+        <button
+          type="button"
+          onClick={() => onShowHistory(lang)}
+          disabled={isLoading}
+          className="w-full mt-3 py-3 rounded-xl border border-slate-700 text-slate-300 hover:border-slate-500 hover:text-white transition-all text-sm font-medium disabled:opacity-50"
+        >
+          {t(lang, 'historyStats')}
+        </button>
+      )}
+
       <div className="mt-6 text-xs text-center text-slate-500">
-        <p>Powered by Gemini Live API & Google Search</p>
+        <p>{t(lang, 'poweredBy')}</p>
       </div>
     </div>
   );
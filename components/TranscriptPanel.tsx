@@ -0,0 +1,49 @@
+import React, { useEffect, useRef } from 'react';
+import { LanguageCode, TranscriptEntry } from '../types';
+import { t } from '../services/i18n';
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+  hostLabel?: string; // The host's name; a generic label when unset
+  lang: LanguageCode;
+}
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ entries, hostLabel, lang }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest line in view as the conversation streams in
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [entries]);
+
+  return (
+    <div
+      ref={scrollRef}
+      role="log"
+      aria-live="polite"
+      className="h-48 overflow-y-auto space-y-3 p-4 rounded-lg bg-black/20 text-left text-sm"
+    >
+      {entries.length === 0 && (
+        <div className="text-slate-500 italic text-center">{t(lang, 'transcriptEmpty')}</div>
+      )}
+      {entries.map((entry, idx) => (
+        <div key={idx} className={`flex flex-col ${entry.role === 'user' ? 'items-end' : 'items-start'}`}>
+          <span className="text-[10px] uppercase tracking-wider text-slate-500 mb-0.5">
+            {entry.role === 'user' ? t(lang, 'you') : hostLabel || t(lang, 'host')}
+          </span>
+          <span
+            className={`px-3 py-2 rounded-xl max-w-[85%] ${
+              entry.role === 'user' ? 'bg-emerald-600/20 text-emerald-100' : 'bg-indigo-600/20 text-indigo-100'
+            } ${entry.final ? '' : 'opacity-80'}`}
+          >
+            {entry.text}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,102 @@
+import { AnswerRecord, Difficulty, GeneratedQuestion, GroundingSource, TriviaConfig } from "../types";
+import { SourceRegistry } from "./grounding";
+import { QuestionFeed, questionKey } from "./questionFeed";
+import type { GeneratedQuestionSet, TriviaProvider } from "./triviaProvider";
+
+export const DIFFICULTY_TIERS: Difficulty[] = ['easy', 'medium', 'hard'];
+
+// Two right in a row at a tier moves up, any miss moves down, so play settles where the player gets ~70% right
+const STEP_UP_STREAK = 2;
+// Top a tier up in the background once it gets this low
+const REFILL_THRESHOLD = 1;
+
+// Enough per tier that a player who stays at one level rarely has to wait for a refill
+const batchSize = (questionCount: number) => Math.ceil(questionCount / 2) + 1;
+
+const stepTier = (tier: Difficulty, step: number): Difficulty =>
+  DIFFICULTY_TIERS[Math.max(0, Math.min(DIFFICULTY_TIERS.length - 1, DIFFICULTY_TIERS.indexOf(tier) + step))];
+
+// Difficulty for the next question, given the questions asked so far and how they were answered
+export const nextDifficulty = (asked: GeneratedQuestion[], answers: AnswerRecord[], fallback: Difficulty): Difficulty => {
+  if (asked.length === 0) return fallback;
+  const current = asked[asked.length - 1].difficulty;
+  const verdicts = asked.map((_, i) => answers.find(a => a.questionIndex === i)?.verdict);
+  if (verdicts[verdicts.length - 1] !== 'correct') return stepTier(current, -1);
+
+  const streak = verdicts.slice(-STEP_UP_STREAK);
+  const streakAtTier = asked.slice(-STEP_UP_STREAK).every(q => q.difficulty === current);
+  return streak.length === STEP_UP_STREAK && streak.every(v => v === 'correct') && streakAtTier
+    ? stepTier(current, 1)
+    : current;
+};
+
+// Questions generated ahead of time for every tier; the game draws from it one question at a time
+export class AdaptiveQuestionPool implements QuestionFeed {
+  private tiers: Record<Difficulty, GeneratedQuestion[]> = { easy: [], medium: [], hard: [] };
+  private asked = new Set<string>();
+  private refilling = new Set<Difficulty>();
+  private registry = new SourceRegistry();
+  private closed = false;
+
+  private constructor(private config: TriviaConfig, private provider: TriviaProvider) {}
+
+  static async create(config: TriviaConfig, provider: TriviaProvider): Promise<AdaptiveQuestionPool> {
+    const pool = new AdaptiveQuestionPool(config, provider);
+    const batches = await Promise.all(DIFFICULTY_TIERS.map(tier => pool.generate(tier)));
+    DIFFICULTY_TIERS.forEach((tier, i) => pool.add(tier, batches[i]));
+    return pool;
+  }
+
+  get sources(): GroundingSource[] {
+    return this.registry.list();
+  }
+
+  async next(asked: GeneratedQuestion[], answers: AnswerRecord[]): Promise<GeneratedQuestion | null> {
+    return this.take(nextDifficulty(asked, answers, this.config.difficulty));
+  }
+
+  // Takes an unasked question at the requested tier, or the nearest tier that still has one
+  take(tier: Difficulty): GeneratedQuestion | null {
+    const order = [...DIFFICULTY_TIERS].sort((a, b) =>
+      Math.abs(DIFFICULTY_TIERS.indexOf(a) - DIFFICULTY_TIERS.indexOf(tier)) - Math.abs(DIFFICULTY_TIERS.indexOf(b) - DIFFICULTY_TIERS.indexOf(tier)));
+    for (const candidate of order) {
+      const queue = this.tiers[candidate];
+      while (queue.length > 0) {
+        const question = queue.shift()!;
+        const key = questionKey(question);
+        if (this.asked.has(key)) continue;
+        this.asked.add(key);
+        this.refillIfLow(candidate);
+        return question;
+      }
+      this.refillIfLow(candidate);
+    }
+    return null;
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  private refillIfLow(tier: Difficulty) {
+    if (this.closed || this.tiers[tier].length > REFILL_THRESHOLD || this.asked.size >= this.config.questionCount || this.refilling.has(tier)) return;
+    this.refilling.add(tier);
+    this.generate(tier)
+      .then(batch => this.add(tier, batch))
+      .catch(e => console.warn(`Couldn't top up the ${tier} questions`, e))
+      .finally(() => this.refilling.delete(tier));
+  }
+
+  private generate(tier: Difficulty): Promise<GeneratedQuestionSet> {
+    const remaining = this.config.questionCount - this.asked.size;
+    return this.provider.generateQuestions({
+      ...this.config,
+      difficulty: tier,
+      questionCount: Math.min(batchSize(this.config.questionCount), Math.max(1, remaining)),
+    });
+  }
+
+  private add(tier: Difficulty, batch: GeneratedQuestionSet) {
+    this.tiers[tier].push(...this.registry.merge(batch.questions, batch.sources).map(q => ({ ...q, difficulty: tier })));
+  }
+}
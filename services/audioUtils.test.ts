@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { createResampler, floatTo16BitPcm, resample } from './audioUtils';
+
+const sine = (length: number, rate: number, frequency = 440) =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / rate) * 0.5);
+
+describe('floatTo16BitPcm', () => {
+  it('maps full scale to the int16 limits', () => {
+    expect(Array.from(floatTo16BitPcm(Float32Array.from([1, -1, 0])))).toEqual([32767, -32768, 0]);
+  });
+
+  it('clamps out-of-range samples instead of wrapping around', () => {
+    expect(Array.from(floatTo16BitPcm(Float32Array.from([1.5, -2, 0.5])))).toEqual([32767, -32768, 16383]);
+  });
+});
+
+describe('resample', () => {
+  it('turns one second at 48 kHz into one second at 16 kHz', () => {
+    expect(resample(new Float32Array(48000), 48000, 16000)).toHaveLength(16000);
+  });
+
+  it('turns one second at 44.1 kHz into one second at 16 kHz', () => {
+    expect(resample(new Float32Array(44100), 44100, 16000)).toHaveLength(16000);
+  });
+
+  it('returns a copy when the rates already match', () => {
+    const input = Float32Array.from([0.1, 0.2]);
+    const output = resample(input, 16000, 16000);
+    expect(Array.from(output)).toEqual(Array.from(input));
+    expect(output).not.toBe(input);
+  });
+
+  it('averages each window when downsampling', () => {
+    expect(Array.from(resample(Float32Array.from([0, 0.3, 0.6, 0.9, 0.9, 0.9]), 48000, 16000)))
+      .toEqual([expect.closeTo(0.3), expect.closeTo(0.9)]);
+  });
+
+  it('interpolates between samples when upsampling', () => {
+    const output = resample(Float32Array.from([0, 1, 0]), 8000, 16000);
+    expect(Array.from(output)).toEqual([0, 0.5, 1, 0.5]);
+  });
+
+  it('keeps a constant signal constant', () => {
+    const output = resample(new Float32Array(4410).fill(0.25), 44100, 16000);
+    expect(output.every(s => Math.abs(s - 0.25) < 1e-6)).toBe(true);
+  });
+});
+
+describe('createResampler', () => {
+  // Feeds the signal in uneven chunks and joins whatever comes out
+  const inChunks = (input: Float32Array, fromRate: number, toRate: number, sizes: number[]) => {
+    const resampler = createResampler(fromRate, toRate);
+    const parts: number[] = [];
+    let offset = 0;
+    for (let i = 0; offset < input.length; i++) {
+      const size = sizes[i % sizes.length];
+      parts.push(...resampler(input.subarray(offset, offset + size)));
+      offset += size;
+    }
+    return Float32Array.from(parts);
+  };
+
+  it.each([
+    [48000, 16000],
+    [44100, 16000],
+    [8000, 16000],
+    [22050, 16000],
+  ])('joins chunks at %i Hz to %i Hz without gaps or repeats', (fromRate, toRate) => {
+    const input = sine(fromRate / 10, fromRate);
+    const whole = resample(input, fromRate, toRate);
+    const chunked = inChunks(input, fromRate, toRate, [128, 441, 1000, 7]);
+
+    // The last output sample may still be waiting on input that a later chunk would bring
+    expect(whole.length - chunked.length).toBeGreaterThanOrEqual(0);
+    expect(whole.length - chunked.length).toBeLessThanOrEqual(1);
+    chunked.forEach((sample, i) => expect(sample).toBeCloseTo(whole[i], 6));
+  });
+
+  it('produces the expected length over many 128-frame render quanta', () => {
+    const input = new Float32Array(44100);
+    const chunked = inChunks(input, 44100, 16000, [128]);
+    expect(Math.abs(chunked.length - 16000)).toBeLessThanOrEqual(1);
+  });
+
+  it('carries a leftover sample across a chunk boundary when upsampling', () => {
+    const resampler = createResampler(8000, 16000);
+    const first = resampler(Float32Array.from([0, 1]));
+    const second = resampler(Float32Array.from([0]));
+    expect([...first, ...second]).toEqual([0, 0.5, 1, 0.5]);
+  });
+});
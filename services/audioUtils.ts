@@ -39,14 +39,100 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createPcmBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+// The Live API expects 16-bit PCM at this rate
+export const LIVE_INPUT_SAMPLE_RATE = 16000;
+
+// Converts [-1, 1] floats to int16, clamping so full-scale samples don't wrap around
+export function floatTo16BitPcm(data: Float32Array): Int16Array {
+  const int16 = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
   }
+  return int16;
+}
+
+// One-shot linear-interpolation resample; averages input samples when downsampling to limit aliasing
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return input.slice();
+  return createResampler(fromRate, toRate)(input);
+}
+
+// Streaming resampler that carries its phase across chunks so consecutive outputs join without clicks
+export function createResampler(fromRate: number, toRate: number): (input: Float32Array) => Float32Array {
+  const step = fromRate / toRate; // Input samples per output sample
+  let produced = 0; // Output samples returned so far
+  let dropped = 0; // Input samples no longer kept in `pending`
+  let pending = new Float32Array(0);
+  // Derived from the running totals rather than accumulated, so rounding can't drift from chunk to chunk
+  const positionOf = (n: number) => n * step - dropped;
+
+  return (chunk: Float32Array) => {
+    if (fromRate === toRate) return chunk.slice();
+
+    const input = new Float32Array(pending.length + chunk.length);
+    input.set(pending);
+    input.set(chunk, pending.length);
+
+    const output: number[] = [];
+    let position = positionOf(produced); // Position of the next output sample within `input`
+    // Downsampling needs the whole window an output sample covers; upsampling needs the sample after it
+    const canProduce = () => step > 1 ? position + step <= input.length : position + 1 < input.length;
+    while (canProduce()) {
+      if (step > 1) {
+        // Box-average the window this output sample covers
+        const start = Math.floor(position);
+        const end = Math.floor(positionOf(produced + 1));
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += input[i];
+        output.push(end > start ? sum / (end - start) : input[start]);
+      } else {
+        const i = Math.floor(position);
+        const frac = position - i;
+        output.push(input[i] + (input[i + 1] - input[i]) * frac);
+      }
+      position = positionOf(++produced);
+    }
+
+    // Keep the samples still needed for the next chunk
+    const consumed = Math.min(Math.floor(position), input.length);
+    pending = input.slice(consumed);
+    dropped += consumed;
+
+    return Float32Array.from(output);
+  };
+}
+
+export function createPcmBlob(data: Float32Array, sampleRate: number = LIVE_INPUT_SAMPLE_RATE): Blob {
+  const int16 = floatTo16BitPcm(data);
   return {
     data: arrayBufferToBase64(int16.buffer),
-    mimeType: 'audio/pcm;rate=16000',
+    mimeType: `audio/pcm;rate=${sampleRate}`,
+  };
+}
+
+// Mono 16-bit PCM WAV file: a 44-byte RIFF header followed by the samples
+export function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const pcm = floatTo16BitPcm(samples);
+  const buffer = new ArrayBuffer(44 + pcm.byteLength);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
   };
-}
\ No newline at end of file
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  new Int16Array(buffer, 44).set(pcm);
+  return buffer;
+}
@@ -0,0 +1,154 @@
+import { AnswerRecord, Difficulty, GeneratedQuestion, HostPersonality, QuestionType, TriviaConfig } from "../types";
+import { arrayBufferToBase64, base64ToUint8Array } from "./audioUtils";
+import { ChallengeLinkError } from "./errors";
+import { LANGUAGES } from "./i18n";
+import { checkTopicLocally, screenQuestion } from "./moderation";
+import { BUILT_IN_PERSONALITIES } from "./personalities";
+import { validateQuestions } from "./questionValidation";
+import { totalPoints } from "./scoring";
+
+const CHALLENGE_VERSION = 1;
+const HASH_KEY = 'challenge';
+// Payload prefixes: deflate-compressed where the browser supports it, plain JSON otherwise
+const DEFLATED = 'z';
+const PLAIN = 'j';
+
+export interface ChallengeScore {
+  correct: number;
+  total: number;
+  points: number;
+}
+
+// Everything a friend needs to play the exact same game and compare results
+export interface Challenge {
+  v: number;
+  config: TriviaConfig;
+  questions: GeneratedQuestion[];
+  score: ChallengeScore;
+}
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+const QUESTION_TYPES: QuestionType[] = ['open', 'multiple_choice', 'true_false', 'numeric'];
+
+// Only built-in hosts travel in links: a custom host's persona prompt would go verbatim into the friend's system instruction
+const builtInPersonality = (id: unknown): HostPersonality =>
+  BUILT_IN_PERSONALITIES.find(p => p.id === id) ?? BUILT_IN_PERSONALITIES[0];
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+export const buildChallenge = (config: TriviaConfig, questions: GeneratedQuestion[], answers: AnswerRecord[]): Challenge => ({
+  v: CHALLENGE_VERSION,
+  // Party rosters and input/recording choices are the sender's own, so the friend gets a plain solo game
+  config: {
+    topic: config.topic,
+    personality: builtInPersonality(config.personality.id),
+    questionCount: questions.length,
+    difficulty: config.difficulty,
+    questionType: config.questionType,
+    players: [],
+    turnMode: 'turns',
+    language: config.language,
+    ...(config.nativeLanguage ? { nativeLanguage: config.nativeLanguage } : {}),
+    ...(config.timeLimitSeconds ? { timeLimitSeconds: config.timeLimitSeconds } : {}),
+  },
+  // Citations point at the sender's source list, which isn't shared
+  questions: questions.map(({ citations, ...q }) => q),
+  score: {
+    correct: answers.filter(a => a.verdict === 'correct').length,
+    total: questions.length,
+    points: totalPoints(answers),
+  },
+});
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  arrayBufferToBase64(bytes.buffer as ArrayBuffer).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string): Uint8Array =>
+  base64ToUint8Array(value.replace(/-/g, '+').replace(/_/g, '/'));
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const encodeChallenge = async (challenge: Challenge): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(challenge));
+  if (typeof CompressionStream === 'undefined') return PLAIN + toBase64Url(json);
+  return DEFLATED + toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')));
+};
+
+export const decodeChallenge = async (payload: string): Promise<Challenge> => {
+  let data: unknown;
+  try {
+    const bytes = fromBase64Url(payload.slice(1));
+    const json = payload[0] === DEFLATED
+      ? await pipeThrough(bytes, new DecompressionStream('deflate-raw'))
+      : bytes;
+    data = JSON.parse(new TextDecoder().decode(json));
+  } catch (e) {
+    throw new ChallengeLinkError("The challenge link is damaged or incomplete.");
+  }
+
+  const challenge = asRecord(data);
+  const config = asRecord(challenge?.config);
+  const score = asRecord(challenge?.score);
+  if (!challenge || challenge.v !== CHALLENGE_VERSION || !config || typeof config.topic !== 'string' || !score || typeof score.correct !== 'number') {
+    throw new ChallengeLinkError("The challenge link was made by an incompatible version of the app.");
+  }
+  const difficulty = DIFFICULTIES.find(d => d === config.difficulty);
+  const { questions, errors } = validateQuestions(challenge.questions, {
+    questionType: QUESTION_TYPES.find(q => q === config.questionType) ?? 'open',
+    difficulty: difficulty ?? 'medium',
+    allowMixedFormats: true,
+  });
+  if (errors.length > 0 || questions.length === 0) {
+    throw new ChallengeLinkError("The challenge link doesn't contain a valid question set.");
+  }
+  // A link can be hand-edited, so its text gets the same screening as freshly generated questions
+  if (checkTopicLocally(config.topic) || questions.some(q => screenQuestion(q))) {
+    throw new ChallengeLinkError("The challenge link contains text that can't be used in a game.");
+  }
+
+  const language = LANGUAGES.find(l => l.code === config.language)?.code ?? 'en';
+  const nativeLanguage = LANGUAGES.find(l => l.code === config.nativeLanguage)?.code;
+  const { timeLimitSeconds } = config;
+  return {
+    v: CHALLENGE_VERSION,
+    // Rebuilt field by field so a hand-edited link can't smuggle in other settings
+    config: {
+      topic: config.topic,
+      personality: builtInPersonality(asRecord(config.personality)?.id),
+      questionCount: questions.length,
+      difficulty: difficulty ?? questions[0].difficulty,
+      questionType: questions[0].type,
+      players: [],
+      turnMode: 'turns',
+      language,
+      ...(nativeLanguage ? { nativeLanguage } : {}),
+      ...(Number(timeLimitSeconds) > 0 ? { timeLimitSeconds: Number(timeLimitSeconds) } : {}),
+    },
+    questions,
+    score: {
+      correct: Number(score.correct) || 0,
+      total: questions.length,
+      points: Number(score.points) || 0,
+    },
+  };
+};
+
+// Link to this app that opens straight into the challenge; the payload sits in the hash so it never reaches a server
+export const createChallengeUrl = async (challenge: Challenge): Promise<string> => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = `${HASH_KEY}=${await encodeChallenge(challenge)}`;
+  return url.toString();
+};
+
+// The challenge payload in the current URL, if the app was opened from a link
+export const readChallengeFromUrl = (): string | null => {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  return params.get(HASH_KEY);
+};
+
+export const clearChallengeFromUrl = (): void => {
+  history.replaceState(null, '', window.location.pathname + window.location.search);
+};
@@ -0,0 +1,18 @@
+// Saves generated content to the user's machine through a temporary object URL
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// File-system friendly version of a title
+export const toFilename = (title: string, extension: string): string => {
+  const base = title.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'trivai';
+  return `${base}.${extension}`;
+};
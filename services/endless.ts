@@ -0,0 +1,119 @@
+import { AnswerRecord, GeneratedQuestion, GroundingSource, TriviaConfig } from "../types";
+import { QuestionGenerationError } from "./errors";
+import { SourceRegistry } from "./grounding";
+import { QuestionFeed, questionKey } from "./questionFeed";
+import type { TriviaProvider } from "./triviaProvider";
+
+export const ENDLESS_LIVES = 3;
+
+const BATCH_SIZE = 5;
+// Start fetching the next batch while this many questions are still waiting
+const LOW_WATER = 3;
+// Only the most recent questions go into the prompt so it doesn't grow without bound
+const MAX_AVOIDED = 40;
+// Stop asking for more once generation keeps coming back with nothing new
+const MAX_STALE_BATCHES = 2;
+
+const HIGH_SCORES_KEY = 'trivai-live:high-scores';
+
+export const livesLeft = (answers: AnswerRecord[]): number =>
+  Math.max(0, ENDLESS_LIVES - answers.filter(a => a.verdict === 'incorrect').length);
+
+// Keeps a buffer of upcoming questions topped up in the background for as long as the game lasts
+export class EndlessQuestionFeed implements QuestionFeed {
+  private buffer: GeneratedQuestion[] = [];
+  private seen = new Set<string>();
+  private used: string[] = []; // Question texts, oldest first
+  private registry = new SourceRegistry();
+  private prefetch: Promise<void> | null = null;
+  private staleBatches = 0;
+  private closed = false;
+
+  private constructor(private config: TriviaConfig, private provider: TriviaProvider) {}
+
+  static async create(config: TriviaConfig, provider: TriviaProvider): Promise<EndlessQuestionFeed> {
+    const feed = new EndlessQuestionFeed(config, provider);
+    await feed.fill();
+    if (feed.buffer.length === 0) {
+      throw new QuestionGenerationError(`Couldn't find any questions about "${config.topic}".`, 1, []);
+    }
+    feed.topUp();
+    return feed;
+  }
+
+  get sources(): GroundingSource[] {
+    return this.registry.list();
+  }
+
+  // Waits for the batch in flight if the buffer ran dry before it arrived
+  async next(): Promise<GeneratedQuestion | null> {
+    if (this.buffer.length === 0 && this.prefetch) await this.prefetch;
+    const question = this.buffer.shift() ?? null;
+    this.topUp();
+    return question;
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  private topUp() {
+    if (this.closed || this.buffer.length >= LOW_WATER || this.prefetch || this.staleBatches >= MAX_STALE_BATCHES) return;
+    this.prefetch = this.fill()
+      .catch(e => {
+        console.warn("Couldn't prefetch more endless questions", e);
+        this.staleBatches++;
+      })
+      .finally(() => {
+        this.prefetch = null;
+        this.topUp();
+      });
+  }
+
+  private async fill() {
+    const batch = await this.provider.generateQuestions({ ...this.config, questionCount: BATCH_SIZE }, this.used.slice(-MAX_AVOIDED));
+    const fresh = this.registry.merge(batch.questions, batch.sources).filter(q => {
+      const key = questionKey(q);
+      if (this.seen.has(key)) return false;
+      this.seen.add(key);
+      this.used.push(q.question);
+      return true;
+    });
+    this.staleBatches = fresh.length > 0 ? 0 : this.staleBatches + 1;
+    this.buffer.push(...fresh);
+  }
+}
+
+export interface HighScore {
+  topic: string;
+  correct: number;
+  points: number;
+  achievedAt: number;
+}
+
+const topicKey = (topic: string) => topic.trim().toLowerCase();
+
+const loadHighScores = (): Record<string, HighScore> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(HIGH_SCORES_KEY) || '{}');
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+  } catch (e) {
+    console.warn("Couldn't read endless high scores", e);
+    return {};
+  }
+};
+
+// Longest endless run on a topic, by correct answers with points as the tie-breaker
+export const getHighScore = (topic: string): HighScore | null => loadHighScores()[topicKey(topic)] ?? null;
+
+// Saves the run if it beats the topic's record; returns the record to show and whether this run set it
+export const recordHighScore = (topic: string, correct: number, points: number): { best: HighScore | null; isNew: boolean } => {
+  const scores = loadHighScores();
+  const previous = scores[topicKey(topic)] ?? null;
+  const isNew = correct > (previous?.correct ?? 0) || (previous !== null && correct === previous.correct && points > previous.points);
+  if (!isNew) return { best: previous, isNew };
+
+  const best: HighScore = { topic: topic.trim(), correct, points, achievedAt: Date.now() };
+  localStorage.setItem(HIGH_SCORES_KEY, JSON.stringify({ ...scores, [topicKey(topic)]: best }));
+  return { best, isNew };
+};
@@ -0,0 +1,62 @@
+import { LocalizedMessage, localize } from "./i18n";
+
+// Raised when the model can't produce a usable question set, even after repair attempts
+export class QuestionGenerationError extends Error {
+  readonly attempts: number;
+  readonly validationErrors: string[];
+
+  constructor(message: string, attempts: number, validationErrors: string[]) {
+    super(message);
+    this.name = 'QuestionGenerationError';
+    this.attempts = attempts;
+    this.validationErrors = validationErrors;
+  }
+}
+
+// Raised when an imported question pack file can't be used; the UI shows the catalog messages
+export class PackImportError extends Error {
+  readonly problem: LocalizedMessage;
+  readonly problems: LocalizedMessage[];
+
+  constructor(problem: LocalizedMessage, problems: LocalizedMessage[] = []) {
+    super(localize('en', problem));
+    this.name = 'PackImportError';
+    this.problem = problem;
+    this.problems = problems;
+  }
+}
+
+// Raised when a disputed answer couldn't be re-checked
+export class VerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VerificationError';
+  }
+}
+
+// Raised when a challenge link can't be decoded into a playable game
+export class ChallengeLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChallengeLinkError';
+  }
+}
+
+// Raised when a topic is refused by moderation before any questions are generated
+export class TopicRejectedError extends Error {
+  readonly topic: string;
+
+  constructor(message: string, topic: string) {
+    super(message);
+    this.name = 'TopicRejectedError';
+    this.topic = topic;
+  }
+}
+
+// Raised at startup when the configured model provider can't be used
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderConfigError';
+  }
+}
@@ -0,0 +1,31 @@
+type Listener<T> = (payload: T) => void;
+
+// Minimal typed event emitter; `on` returns an unsubscribe function
+export class EventEmitter<Events extends Record<string, unknown>> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const set = this.listeners[event] ?? new Set<Listener<Events[K]>>();
+    set.add(listener);
+    this.listeners[event] = set;
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners[event]?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (e) {
+        console.error(`Listener for "${String(event)}" failed`, e);
+      }
+    });
+  }
+}
@@ -0,0 +1,49 @@
+import { AnswerRecord, GeneratedQuestion, TriviaConfig } from "../types";
+import { computePlayerScores, isPartyGame } from "./scoring";
+import { t, uiLanguage } from "./i18n";
+
+// Builds the spoken end-of-game recap from what actually happened in the round
+export const buildGameSummary = (
+  config: TriviaConfig,
+  questions: GeneratedQuestion[],
+  answers: AnswerRecord[],
+): string => {
+  const lang = uiLanguage(config);
+  const total = questions.length;
+  const score = answers.filter(a => a.verdict === 'correct').length;
+  const missed = questions.filter((_, i) => {
+    const record = answers.find(a => a.questionIndex === i);
+    return !record || record.verdict !== 'correct';
+  });
+
+  let verdict: string;
+  if (total > 0 && score === total) {
+    verdict = t(lang, 'summaryPerfect', { total });
+  } else if (score >= total / 2) {
+    verdict = t(lang, 'summaryGood', { score, total });
+  } else {
+    verdict = t(lang, 'summaryLow', { score, total });
+  }
+
+  if (isPartyGame(config)) {
+    const scores = computePlayerScores(config.players, answers);
+    const winners = scores.filter(s => s.points === scores[0].points).map(s => s.player);
+    verdict = winners.length > 1
+      ? t(lang, 'summaryTie', { players: winners.join(` ${t(lang, 'summaryAnd')} `), score: scores[0].correct })
+      : t(lang, 'summaryWinner', { player: winners[0], score: scores[0].correct });
+  }
+
+  const parts = [t(lang, 'summaryWrap', { topic: config.topic }), verdict];
+
+  if (missed.length > 0) {
+    // Keep the recap short enough for TTS: mention at most two misses
+    const recap = missed.slice(0, 2).map(q => `${q.question} ${t(lang, 'summaryAnswerWas', { answer: q.answer })} ${q.context}`);
+    parts.push(`${t(lang, 'summaryMissed')} ${recap.join(` ${t(lang, 'summaryAlso')} `)}`);
+    if (missed.length > 2) {
+      parts.push(t(lang, 'summaryMore', { count: missed.length - 2 }));
+    }
+  }
+
+  parts.push(t(lang, 'summaryThanks'));
+  return parts.join(' ');
+};
@@ -1,75 +1,152 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { GeneratedQuestion } from "../types";
+import { Content, GoogleGenAI, Modality, Type } from "@google/genai";
+import { AnswerVerification, GeneratedQuestion, GroundingSource, HostVoice, LanguageCode, TopicModeration, TriviaConfig } from "../types";
 import { base64ToUint8Array, decodeAudioData } from "./audioUtils";
+import { QuestionGenerationError, VerificationError } from "./errors";
+import { SourceRegistry, linkCitations } from "./grounding";
+import { t } from "./i18n";
+import { screenQuestion } from "./moderation";
+import { buildQuestionModerationPrompt, buildQuestionPrompt, buildTopicModerationPrompt, buildVerificationPrompt } from "./prompts";
+import { QuestionValidationResult, extractJson, validateQuestions } from "./questionValidation";
+import { triviaToolDeclarations } from "./triviaTools";
+import type { GeneratedQuestionSet, LiveConnectOptions, LiveSessionHandle, TriviaProvider } from "./triviaProvider";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use so the app can run on another provider without an API key
+let client: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
 
-// 1. Generate Questions using Search Grounding
-export const generateQuestions = async (topic: string): Promise<{ questions: GeneratedQuestion[], sources: any[] }> => {
-  const prompt = `
-    Generate 5 engaging trivia questions about "${topic}".
-    Use Google Search to find interesting, accurate, and potentially recent facts.
-    
-    Return the output strictly as a JSON block formatted like this:
-    \`\`\`json
-    [
-      {
-        "question": "The question text",
-        "answer": "The correct answer",
-        "context": "A short fun fact explaining the answer"
-      }
-    ]
-    \`\`\`
-  `;
+const MAX_GENERATION_ATTEMPTS = 3;
 
-  const response = await ai.models.generateContent({
+// Classifier pass for family-friendly games; returns the repair problems for unsuitable questions
+const checkFamilyFriendly = async (questions: GeneratedQuestion[]): Promise<string[]> => {
+  const response = await getClient().models.generateContent({
     model: "gemini-2.5-flash",
-    contents: prompt,
+    contents: buildQuestionModerationPrompt(questions),
     config: {
-      tools: [{ googleSearch: {} }],
-      // Note: responseMimeType: 'application/json' is not supported with googleSearch in all regions/versions yet,
-      // but we requested JSON in the prompt.
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          flagged: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                number: { type: Type.INTEGER },
+                reason: { type: Type.STRING },
+              },
+              required: ['number', 'reason'],
+            },
+          },
+        },
+        required: ['flagged'],
+      },
     },
   });
 
-  // Extract grounding metadata
-  const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-
-  // Parse JSON from text
-  const text = response.text || "";
-  let questions: GeneratedQuestion[] = [];
   try {
-    const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
-    if (jsonMatch && jsonMatch[1]) {
-      questions = JSON.parse(jsonMatch[1]);
-    } else {
-      // Fallback: try parsing the whole text if no code blocks
-      questions = JSON.parse(text);
+    const data = JSON.parse(response.text || "") as Record<string, unknown>;
+    if (Array.isArray(data.flagged)) {
+      return data.flagged
+        .filter((f): f is Record<string, unknown> => typeof f === 'object' && f !== null)
+        .filter(f => typeof f.number === 'number' && f.number >= 1 && f.number <= questions.length)
+        .map(f => `Question ${f.number} isn't suitable for children: ${String(f.reason ?? '').trim().replace(/\.+$/, '') || 'replace it'}.`);
     }
   } catch (e) {
-    console.error("Failed to parse trivia questions JSON", e);
-    // Fallback question if parsing fails
-    questions = [{
-      question: `I couldn't auto-generate specific questions about ${topic}, but let's play anyway! What is the main thing you know about ${topic}?`,
-      answer: "N/A",
-      context: "Sometimes even AI has a hiccup!"
-    }];
+    console.warn("Question moderation returned invalid JSON", e);
+  }
+  // Fail closed, like topic moderation: a batch that couldn't be checked isn't played
+  return ["The questions couldn't be checked for a family audience; return them again unchanged if they are suitable."];
+};
+
+// 1. Generate Questions using Search Grounding
+export const generateQuestions = async (config: TriviaConfig, avoid: string[] = []): Promise<GeneratedQuestionSet> => {
+  const { topic, questionCount } = config;
+  const prompt = buildQuestionPrompt(config, avoid);
+
+  const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
+  const sources = new SourceRegistry();
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const response = await getClient().models.generateContent({
+      model: "gemini-2.5-flash",
+      contents,
+      config: {
+        tools: [{ googleSearch: {} }],
+        // Note: responseMimeType: 'application/json' is not supported with googleSearch in all regions/versions yet,
+        // but we requested JSON in the prompt.
+      },
+    });
+
+    // Extract grounding metadata (repair turns may add sources of their own)
+    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+    const chunkSourceIds = sources.add(groundingMetadata?.groundingChunks || []);
+
+    // Parse and validate JSON from text
+    const text = response.text || "";
+    let result: QuestionValidationResult | null = null;
+    try {
+      result = validateQuestions(extractJson(text), config);
+    } catch (e) {
+      errors = ["The response did not contain valid JSON."];
+    }
+    if (result) {
+      // Questions with unsuitable content go back for replacement like any other invalid question
+      const flagged = result.questions
+        .map((q, i) => {
+          const problem = screenQuestion(q);
+          return problem ? `Question ${i + 1} ${problem}.` : null;
+        })
+        .filter((problem): problem is string => problem !== null);
+      errors = [...result.errors, ...flagged];
+      // Only a batch that is otherwise valid is worth a classifier call
+      if (errors.length === 0 && config.familyFriendly) {
+        errors = await checkFamilyFriendly(result.questions);
+      }
+      if (errors.length === 0) {
+        const questions = linkCitations(result.questions, groundingMetadata?.groundingSupports || [], chunkSourceIds);
+        return { questions, sources: sources.list() };
+      }
+    }
+
+    console.warn(`Question generation attempt ${attempt} failed validation`, errors);
+
+    // Re-prompt with the problems so the model can repair its own output
+    contents.push(
+      { role: 'model', parts: [{ text }] },
+      {
+        role: 'user',
+        parts: [{
+          text: `Your previous response had these problems:\n- ${errors.join('\n- ')}\n` +
+            `Fix them and return exactly ${questionCount} distinct questions about the same topic in the same JSON format, with no other text.`,
+        }],
+      },
+    );
   }
 
-  return { questions, sources };
+  throw new QuestionGenerationError(
+    `Couldn't generate valid questions about "${topic}" after ${MAX_GENERATION_ATTEMPTS} attempts.`,
+    MAX_GENERATION_ATTEMPTS,
+    errors,
+  );
 };
 
 // 2. Generate Speech (TTS) for Game Summary
-export const generateSummarySpeech = async (text: string): Promise<AudioBuffer | null> => {
+export const generateSummarySpeech = async (text: string, voice: HostVoice): Promise<AudioBuffer | null> => {
   try {
-    const response = await ai.models.generateContent({
+    const response = await getClient().models.generateContent({
       model: "gemini-2.5-flash-preview-tts",
       contents: [{ parts: [{ text }] }],
       config: {
         responseModalities: [Modality.AUDIO],
         speechConfig: {
           voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Fenrir' },
+            prebuiltVoiceConfig: { voiceName: voice },
           },
         },
       },
@@ -85,10 +162,126 @@ export const generateSummarySpeech = async (text: string): Promise<AudioBuffer |
       24000,
       1
     );
+    // The buffer outlives the context it was decoded with, which would otherwise leak
+    outputAudioContext.close();
     return audioBuffer;
 
   } catch (e) {
     console.error("TTS generation failed", e);
     return null;
   }
-};
\ No newline at end of file
+};
+
+// 3. Fact-check a disputed question with a fresh grounded search
+export const verifyAnswer = async (
+  question: GeneratedQuestion,
+  userAnswer: string,
+  questionSources: GroundingSource[],
+): Promise<AnswerVerification> => {
+  const response = await getClient().models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: buildVerificationPrompt(question, userAnswer, questionSources),
+    config: {
+      tools: [{ googleSearch: {} }],
+    },
+  });
+
+  const sources = new SourceRegistry();
+  sources.add(response.candidates?.[0]?.groundingMetadata?.groundingChunks || []);
+
+  let data: Record<string, unknown>;
+  try {
+    data = extractJson(response.text || "") as Record<string, unknown>;
+  } catch (e) {
+    throw new VerificationError("The fact-check response did not contain valid JSON.");
+  }
+  if (
+    typeof data !== 'object' || data === null ||
+    typeof data.keyIsCorrect !== 'boolean' ||
+    typeof data.userAnswerCorrect !== 'boolean' ||
+    typeof data.correctAnswer !== 'string'
+  ) {
+    throw new VerificationError("The fact-check response was missing required fields.");
+  }
+
+  return {
+    keyIsCorrect: data.keyIsCorrect,
+    correctAnswer: data.correctAnswer.trim() || question.answer,
+    userAnswerCorrect: data.userAnswerCorrect,
+    explanation: typeof data.explanation === 'string' ? data.explanation.trim() : '',
+    sources: sources.list(),
+  };
+};
+
+// 4. Connect the Live API host session
+export const connectLiveSession = ({ config, systemInstruction, callbacks, resumptionHandle }: LiveConnectOptions): Promise<LiveSessionHandle> => {
+  // The native audio model can only speak, so text replies use the half-cascade live model
+  if (config.textReplies) {
+    return getClient().live.connect({
+      model: 'gemini-live-2.5-flash-preview',
+      callbacks,
+      config: {
+        responseModalities: [Modality.TEXT],
+        systemInstruction: systemInstruction,
+        tools: [{ functionDeclarations: triviaToolDeclarations }],
+        inputAudioTranscription: {},
+        sessionResumption: { handle: resumptionHandle },
+      }
+    });
+  }
+
+  return getClient().live.connect({
+    model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+    callbacks,
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName: config.personality.voice } }
+      },
+      systemInstruction: systemInstruction,
+      tools: [{ functionDeclarations: triviaToolDeclarations }],
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      sessionResumption: { handle: resumptionHandle },
+    }
+  });
+};
+
+// 5. Classify a topic before any questions are generated for it
+export const moderateTopic = async (topic: string, familyFriendly: boolean, language: LanguageCode): Promise<TopicModeration> => {
+  const response = await getClient().models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: buildTopicModerationPrompt(topic, familyFriendly, language),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          allowed: { type: Type.BOOLEAN },
+          reason: { type: Type.STRING },
+        },
+        required: ['allowed', 'reason'],
+      },
+    },
+  });
+
+  try {
+    const data = JSON.parse(response.text || "") as Record<string, unknown>;
+    if (typeof data.allowed === 'boolean') {
+      return { allowed: data.allowed, reason: data.allowed ? '' : String(data.reason ?? '').trim() };
+    }
+  } catch (e) {
+    console.warn("Topic moderation returned invalid JSON", e);
+  }
+  // Fail closed: a topic that couldn't be classified isn't played
+  return { allowed: false, reason: t(language, 'topicCheckFailed') };
+};
+
+export const geminiProvider: TriviaProvider = {
+  name: 'gemini',
+  moderateTopic,
+  generateQuestions,
+  generateSummarySpeech,
+  verifyAnswer,
+  connectLive: connectLiveSession,
+};
@@ -0,0 +1,90 @@
+import type { GroundingChunk, GroundingSupport } from "@google/genai";
+import { GeneratedQuestion, GroundingSource, QuestionCitations } from "../types";
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const domainOf = (uri: string): string | undefined => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '');
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// Collects web sources across several responses, de-duplicated by URI
+export class SourceRegistry {
+  private byUri = new Map<string, GroundingSource>();
+
+  // Registers a response's chunks; returns the source id for each chunk index (undefined for non-web chunks)
+  add(chunks: GroundingChunk[]): (string | undefined)[] {
+    return chunks.map(chunk => {
+      const uri = chunk.web?.uri;
+      if (!uri) return undefined;
+      let source = this.byUri.get(uri);
+      if (!source) {
+        source = {
+          id: `src-${this.byUri.size + 1}`,
+          uri,
+          title: chunk.web?.title || chunk.web?.domain || domainOf(uri) || 'Source',
+          domain: chunk.web?.domain || domainOf(uri),
+        };
+        this.byUri.set(uri, source);
+      }
+      return source.id;
+    });
+  }
+
+  list(): GroundingSource[] {
+    return [...this.byUri.values()];
+  }
+
+  // Re-keys a separately generated batch's sources into this registry and rewrites its citations to match
+  merge(questions: GeneratedQuestion[], sources: GroundingSource[]): GeneratedQuestion[] {
+    const ids = new Map<string, string>();
+    for (const source of sources) {
+      let merged = this.byUri.get(source.uri);
+      if (!merged) {
+        merged = { ...source, id: `src-${this.byUri.size + 1}` };
+        this.byUri.set(source.uri, merged);
+      }
+      ids.set(source.id, merged.id);
+    }
+    const remap = (list: string[]) => list.map(id => ids.get(id)).filter((id): id is string => !!id);
+    return questions.map(q => (q.citations
+      ? { ...q, citations: { answer: remap(q.citations.answer), context: remap(q.citations.context) } }
+      : q));
+  }
+}
+
+// Links each question's answer and fact to the sources whose supported segment mentions them
+export const linkCitations = (
+  questions: GeneratedQuestion[],
+  supports: GroundingSupport[],
+  chunkSourceIds: (string | undefined)[],
+): GeneratedQuestion[] =>
+  questions.map(question => {
+    const citations: QuestionCitations = { answer: [], context: [] };
+    const answer = normalize(question.answer);
+    const context = normalize(question.context);
+
+    for (const support of supports) {
+      const segment = normalize(support.segment?.text || '');
+      if (!segment) continue;
+      const ids = (support.groundingChunkIndices || [])
+        .map(i => chunkSourceIds[i])
+        .filter((id): id is string => !!id);
+
+      // The segment either covers the field or is a sentence inside it
+      const coversContext = segment.includes(context) || context.includes(segment);
+      const coversAnswer = coversContext
+        ? segment.includes(answer)
+        : segment.includes(answer) && segment.includes(normalize(question.question).slice(0, 40));
+
+      if (coversAnswer) citations.answer.push(...ids);
+      if (coversContext) citations.context.push(...ids);
+    }
+
+    citations.answer = [...new Set(citations.answer)];
+    citations.context = [...new Set(citations.context)];
+    return citations.answer.length || citations.context.length ? { ...question, citations } : question;
+  });
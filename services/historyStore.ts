@@ -0,0 +1,65 @@
+import { GameRecord } from "../types";
+
+const DB_NAME = 'trivai-live';
+const DB_VERSION = 1;
+const GAMES_STORE = 'games';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(GAMES_STORE)) {
+          const store = db.createObjectStore(GAMES_STORE, { keyPath: 'id' });
+          store.createIndex('endedAt', 'endedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps a single-store transaction in a promise that settles when the request does
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(GAMES_STORE, mode);
+    const request = run(tx.objectStore(GAMES_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const createGameId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const saveGame = async (game: GameRecord): Promise<void> => {
+  await withStore('readwrite', store => store.put(game));
+};
+
+// All saved games, most recent first
+export const listGames = async (): Promise<GameRecord[]> => {
+  const games = await withStore<GameRecord[]>('readonly', store => store.getAll());
+  return games.sort((a, b) => b.endedAt - a.endedAt);
+};
+
+export const deleteGame = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
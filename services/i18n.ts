@@ -0,0 +1,1285 @@
+import { LanguageCode, TriviaConfig } from "../types";
+
+export const LANGUAGES: { code: LanguageCode; name: string; nativeName: string }[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+];
+
+const EN = {
+  // Setup screen
+  tagline: 'Voice-powered trivia with Gemini 2.5',
+  questionPack: 'Question Pack',
+  packSummary: '{count} questions · {topic}',
+  edit: 'Edit',
+  delete: 'Delete',
+  generateInstead: 'Generate with AI instead',
+  chooseTopic: 'Choose a Topic',
+  topicPlaceholder: 'e.g. 90s Pop Music, Quantum Physics...',
+  multipleRounds: 'Multiple rounds',
+  singleTopic: 'Single topic',
+  roundPlaceholder: 'Round {number} topic',
+  addRound: '+ Add round',
+  removeRound: 'Remove round {number}',
+  spinWheel: 'Spin the category wheel',
+  questionsPerRound: 'Questions per Round',
+  questions: 'Questions',
+  questionCountOption: '{count} questions',
+  endlessOption: 'Endless ({lives} lives)',
+  questionStyle: 'Question Style',
+  typeOpen: 'Open answer',
+  typeMultipleChoice: 'Multiple choice',
+  typeTrueFalse: 'True / False',
+  typeNumeric: 'Numbers (closest wins)',
+  difficulty: 'Difficulty',
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+  adaptiveDifficulty: 'Adaptive difficulty',
+  adaptiveDifficultyDesc: 'Questions get harder or easier as you play, starting at the level you pick.',
+  createPack: 'Or create / import your own question pack →',
+  players: 'Players',
+  playersOptional: '(optional, for party mode)',
+  addPlayerPlaceholder: 'Add a player name...',
+  add: 'Add',
+  removePlayer: 'Remove {name}',
+  takeTurns: 'Take Turns',
+  takeTurnsDesc: 'Each question goes to the next player.',
+  buzzIn: 'Buzz In',
+  buzzInDesc: 'First to shout their name answers.',
+  language: 'Game Language',
+  learningMode: 'Language learning',
+  learningModeDesc: 'Questions in {language}, explanations in your own language.',
+  nativeLanguage: 'Your language',
+  hostPersonality: 'Host Personality',
+  createHost: '+ Create your own host',
+  preparing: 'Preparing Game...',
+  startGame: 'Start Live Game',
+  historyStats: 'History & Stats',
+  poweredBy: 'Powered by Gemini Live API & Google Search',
+  reviewMode: 'Review mode',
+  reviewDue: '{count} missed questions are due for another try.',
+  startReview: 'Start review',
+  reviewTopic: 'Missed questions',
+  // Ready screen
+  readyTitle: 'Trivia Ready!',
+  readyFresh: 'We have {count} fresh questions about',
+  readyPack: 'We have {count} hand-picked questions about',
+  readyAdaptive: 'Your {count} questions will adapt to how you play, all about',
+  readyEndless: 'Questions keep coming until you lose all {lives} lives, all about',
+  readyReview: 'Time to review {count} cards from your deck:',
+  highScoreToBeat: 'High score to beat: {score} correct.',
+  readyVolume: 'Turn up your volume and click "Connect" to meet your host.',
+  verifiedWith: 'Verified with Google Search:',
+  hideQuestions: 'Hide questions',
+  reviewQuestions: 'Review & edit questions',
+  exportPack: 'Export as pack',
+  connect: 'Connect to Live Host',
+  // Playing screen
+  liveConnection: 'LIVE CONNECTION',
+  reconnecting: 'RECONNECTING...',
+  connecting: 'CONNECTING...',
+  questionOf: 'Question {current} of {total}',
+  questionNumber: 'Question {current}',
+  roundOf: 'Round {current} of {total}: {topic}',
+  livesLeft: '{count} lives left',
+  upNow: 'Up now:',
+  score: 'Score',
+  hostVoice: 'AI Voice Output',
+  yourMicrophone: 'Your Microphone',
+  liveTranscript: 'Live Transcript',
+  listening: 'Listening... Speak clearly to answer.',
+  endSession: 'End Session',
+  answerTime: 'Answer Time',
+  untimed: 'Off',
+  seconds: '{count}s',
+  hint: 'Hint',
+  repeatQuestion: 'Repeat question',
+  skip: 'Skip',
+  points: 'Points',
+  pointsTotal: '{points} points',
+  answerBy: 'Answer By',
+  voiceInput: 'Voice',
+  typedInput: 'Typing',
+  textReplies: 'Host replies in text',
+  typeAnswer: 'Type your answer...',
+  send: 'Send',
+  micUnavailable: 'No microphone available, so you can type your answers instead.',
+  // Ended screen
+  gameOver: 'Game Over',
+  youScored: 'You scored {score} out of {total}',
+  newHighScore: 'New high score on this topic!',
+  highScore: 'Your best run on this topic: {score} correct',
+  roundByRound: 'Round by round',
+  reviewAdded: '{count} missed questions were added to your review deck.',
+  reviewRescheduled: '{count} review cards were rescheduled: right answers come back later, misses tomorrow.',
+  scoredOn: 'on',
+  showTranscript: 'Show full transcript',
+  playAgain: 'Play Again',
+  recordSession: 'Record this game (audio + transcript)',
+  familyFriendly: 'Family-friendly',
+  familyFriendlyDesc: 'Stricter topic checks, kid-safe questions and a host who keeps it clean.',
+  downloadAudio: 'Download audio (WAV)',
+  transcriptExport: 'Transcript:',
+  playerLabel: 'Player',
+  difficultyCurve: 'Difficulty curve',
+  challengeFriend: 'Challenge a friend',
+  creatingLink: 'Creating link...',
+  linkCopied: 'Link copied! Send it to a friend.',
+  challengeIntro: 'Challenge accepted! Your friend scored {score} out of {total}. Can you beat them?',
+  challengeWon: "You beat your friend's {theirs}!",
+  challengeLost: 'Your friend wins this one with {theirs}.',
+  challengeTied: "It's a tie with your friend at {theirs}!",
+  challengeInvalid: "That challenge link couldn't be opened.",
+  challengeLinkFailed: "Couldn't create the challenge link.",
+  // Transcript and scoreboards
+  you: 'You',
+  host: 'Host',
+  transcriptEmpty: 'The conversation will appear here.',
+  correctLabel: 'correct',
+  pointsShort: '{points} pts',
+  leader: 'leader',
+  bestRound: 'best round',
+  // Game review
+  youSaid: 'You said: {answer}',
+  playerSaid: '{player} said: {answer}',
+  notAnswered: 'Not answered',
+  answerLabel: 'Answer:',
+  answerSources: 'Sources for the answer',
+  factSources: 'Sources for the fact',
+  disputeUpheld: 'Dispute upheld — score corrected.',
+  disputeRejected: 'Dispute rejected.',
+  verifiedAnswer: 'Verified answer:',
+  factCheckSources: 'Fact-check sources',
+  dispute: 'Dispute',
+  checking: 'Checking...',
+  allSources: 'All sources ({count})',
+  // History screen
+  yourStats: 'Your Stats',
+  back: '← Back',
+  loadingHistory: 'Loading history...',
+  historyLoadFailed: "Couldn't load your game history.",
+  noGames: 'No games yet. Finish a game and it will show up here.',
+  statGames: 'Games',
+  statAccuracy: 'Accuracy',
+  currentStreak: 'Current Streak',
+  bestStreak: 'Best Streak',
+  accuracyByTopic: 'Accuracy by Topic',
+  gameCountOne: '{count} game',
+  gameCountMany: '{count} games',
+  pastGames: 'Past Games',
+  replay: 'Replay',
+  deleteGame: 'Delete {topic} game',
+  // Pack and question editors
+  packTitle: 'Pack title',
+  packTopic: 'Topic the host announces',
+  packAuthor: 'Author (optional)',
+  packDescription: 'Description (optional)',
+  importPack: 'Import JSON / CSV',
+  exportShort: 'Export',
+  useThisPack: 'Use This Pack',
+  packReadFailed: "Couldn't read that file.",
+  packRejected: "This pack can't be played.",
+  moveUp: 'Move up',
+  moveDown: 'Move down',
+  deleteQuestion: 'Delete question',
+  questionPlaceholder: 'Question',
+  optionPlaceholder: 'Option {letter}',
+  answerPlaceholder: 'Answer',
+  answerMatchOption: 'Answer (must match one option)',
+  factPlaceholder: 'Fun fact shared after the answer',
+  answerTrue: 'True',
+  answerFalse: 'False',
+  addQuestion: '+ Add question',
+  // Host builder
+  hostName: 'Host name',
+  hostDescription: 'Short description',
+  hostPrompt: 'How should the host behave? e.g. A pirate captain who awards doubloons for right answers...',
+  catchphrasesPlaceholder: 'Catchphrases, one per line',
+  preview: 'Preview',
+  playing: 'Playing...',
+  cancel: 'Cancel',
+  saveHost: 'Save Host',
+  hostPreviewLine: "Hi, I'm {name}. {line} Let's play some trivia!",
+  yourHost: 'your host',
+  // Host voices
+  voiceFirm: 'Firm',
+  voiceUpbeat: 'Upbeat',
+  voiceInformative: 'Informative',
+  voiceExcitable: 'Excitable',
+  voiceBreezy: 'Breezy',
+  voiceYouthful: 'Youthful',
+  voiceFirmDeeper: 'Firm, deeper',
+  voiceBright: 'Bright',
+  // Errors
+  tryOtherTopic: 'Try a different or more specific topic.',
+  generationFailed: 'Failed to generate questions. Please try again.',
+  connectionLost: 'Lost the connection to the host.',
+  connectFailed: "Couldn't connect to the host. Please try again.",
+  tryAgain: 'Please try again.',
+  disputeFailed: "Couldn't check that answer right now. Please try again.",
+  questionsFailed: "Couldn't write questions about {topic}.",
+  topicRejected: "\"{topic}\" can't be used as a topic.",
+  topicEmpty: 'The topic is empty.',
+  topicTooLong: 'Keep the topic under {max} characters.',
+  topicMarkup: 'It contains game control markup.',
+  topicCheckFailed: "The topic couldn't be checked right now. Please try again.",
+  // Pack problems
+  packInvalidQuestions: 'This pack has invalid questions.',
+  packNotJson: "The file isn't valid JSON.",
+  packNotPack: "The file doesn't contain a question pack.",
+  packUnknownFormat: 'Unknown pack format "{format}".',
+  csvEmpty: 'The CSV file is empty.',
+  csvMissingColumns: 'The CSV header is missing: {columns}.',
+  packNeedsTitle: 'The pack needs a title.',
+  packNeedsTopic: 'The pack needs a topic.',
+  packQuestionMarkup: 'Question {number} contains game control markup.',
+  // Question set problems; the English wording is also what the model is sent to repair its output
+  invalidNotArray: 'The response must be a JSON array of question objects.',
+  invalidCount: 'Expected exactly {expected} questions but got {actual}.',
+  invalidEmpty: 'There must be at least one question.',
+  invalidNotObject: 'Question {number} must be an object.',
+  invalidMissingField: 'Question {number} is missing the "{field}" string field.',
+  invalidEmptyField: 'Question {number} has an empty "{field}".',
+  invalidChoiceCount: 'Question {number} must have 3 or 4 "choices".',
+  invalidEmptyChoice: 'Question {number} has an empty or non-string choice.',
+  invalidAnswerNotChoice: 'Question {number} has an "answer" that is not one of its "choices".',
+  invalidTrueFalse: 'Question {number} must have "True" or "False" as its answer.',
+  invalidNumeric: 'Question {number} must have a plain number as its answer.',
+  invalidDuplicate: 'Question {number} duplicates question {first}.',
+  // Host builder problems
+  hostNeedsName: 'Give your host a name.',
+  hostNeedsPrompt: 'Describe how your host should behave.',
+  hostNeedsLanguage: 'Pick the language your host speaks.',
+  hostUnknownVoice: 'Unknown voice "{voice}".',
+  // Spoken summary
+  summaryWrap: "That's a wrap on {topic} trivia.",
+  summaryPerfect: 'A perfect game! You got all {total} right.',
+  summaryGood: 'Nicely done, you got {score} out of {total}.',
+  summaryLow: 'You got {score} out of {total}. Plenty of room to grow!',
+  summaryTie: "It's a tie between {players} with {score} each!",
+  summaryWinner: '{player} takes the crown with {score} correct!',
+  summaryAnd: 'and',
+  summaryMissed: "Here's what you missed.",
+  summaryAnswerWas: 'The answer was {answer}.',
+  summaryAlso: 'Also,',
+  summaryMore: 'And {count} more you can review on screen.',
+  summaryThanks: 'Thanks for playing TrivAI Live!',
+};
+
+export type MessageKey = keyof typeof EN;
+type Messages = Record<MessageKey, string>;
+
+const ES: Messages = {
+  tagline: 'Trivia por voz con Gemini 2.5',
+  questionPack: 'Paquete de preguntas',
+  packSummary: '{count} preguntas · {topic}',
+  edit: 'Editar',
+  delete: 'Eliminar',
+  generateInstead: 'Generar con IA',
+  chooseTopic: 'Elige un tema',
+  topicPlaceholder: 'p. ej. Pop de los 90, Física cuántica...',
+  multipleRounds: 'Varias rondas',
+  singleTopic: 'Un solo tema',
+  roundPlaceholder: 'Tema de la ronda {number}',
+  addRound: '+ Añadir ronda',
+  removeRound: 'Quitar la ronda {number}',
+  spinWheel: 'Girar la ruleta de categorías',
+  questionsPerRound: 'Preguntas por ronda',
+  questions: 'Preguntas',
+  questionCountOption: '{count} preguntas',
+  endlessOption: 'Sin fin ({lives} vidas)',
+  questionStyle: 'Tipo de pregunta',
+  typeOpen: 'Respuesta libre',
+  typeMultipleChoice: 'Opción múltiple',
+  typeTrueFalse: 'Verdadero / Falso',
+  typeNumeric: 'Números (gana el más cercano)',
+  difficulty: 'Dificultad',
+  easy: 'Fácil',
+  medium: 'Media',
+  hard: 'Difícil',
+  adaptiveDifficulty: 'Dificultad adaptativa',
+  adaptiveDifficultyDesc: 'Las preguntas se vuelven más difíciles o fáciles mientras juegas, empezando por el nivel elegido.',
+  createPack: 'O crea / importa tu propio paquete de preguntas →',
+  players: 'Jugadores',
+  playersOptional: '(opcional, para modo fiesta)',
+  addPlayerPlaceholder: 'Añade un jugador...',
+  add: 'Añadir',
+  removePlayer: 'Quitar a {name}',
+  takeTurns: 'Por turnos',
+  takeTurnsDesc: 'Cada pregunta pasa al siguiente jugador.',
+  buzzIn: 'Al pulsador',
+  buzzInDesc: 'Responde quien diga su nombre primero.',
+  language: 'Idioma del juego',
+  learningMode: 'Aprender idiomas',
+  learningModeDesc: 'Preguntas en {language}, explicaciones en tu idioma.',
+  nativeLanguage: 'Tu idioma',
+  hostPersonality: 'Personalidad del presentador',
+  createHost: '+ Crea tu propio presentador',
+  preparing: 'Preparando el juego...',
+  startGame: 'Empezar partida en vivo',
+  historyStats: 'Historial y estadísticas',
+  poweredBy: 'Con Gemini Live API y Google Search',
+  reviewMode: 'Modo repaso',
+  reviewDue: '{count} preguntas falladas esperan otro intento.',
+  startReview: 'Empezar repaso',
+  reviewTopic: 'Preguntas falladas',
+  readyTitle: '¡Trivia lista!',
+  readyFresh: 'Tenemos {count} preguntas nuevas sobre',
+  readyPack: 'Tenemos {count} preguntas seleccionadas sobre',
+  readyAdaptive: 'Tus {count} preguntas se adaptarán a tu juego, todas sobre',
+  readyEndless: 'Las preguntas no paran hasta que pierdas tus {lives} vidas, todas sobre',
+  readyReview: 'Hora de repasar {count} tarjetas de tu mazo:',
+  highScoreToBeat: 'Récord a batir: {score} aciertos.',
+  readyVolume: 'Sube el volumen y pulsa "Conectar" para conocer a tu presentador.',
+  verifiedWith: 'Verificado con Google Search:',
+  hideQuestions: 'Ocultar preguntas',
+  reviewQuestions: 'Revisar y editar preguntas',
+  exportPack: 'Exportar como paquete',
+  connect: 'Conectar con el presentador',
+  liveConnection: 'EN DIRECTO',
+  reconnecting: 'RECONECTANDO...',
+  connecting: 'CONECTANDO...',
+  questionOf: 'Pregunta {current} de {total}',
+  questionNumber: 'Pregunta {current}',
+  roundOf: 'Ronda {current} de {total}: {topic}',
+  livesLeft: 'Quedan {count} vidas',
+  upNow: 'Turno de:',
+  score: 'Puntos',
+  hostVoice: 'Voz de la IA',
+  yourMicrophone: 'Tu micrófono',
+  liveTranscript: 'Transcripción en vivo',
+  listening: 'Escuchando... Habla claro para responder.',
+  endSession: 'Terminar sesión',
+  answerTime: 'Tiempo de respuesta',
+  untimed: 'Sin límite',
+  seconds: '{count} s',
+  hint: 'Pista',
+  repeatQuestion: 'Repetir pregunta',
+  skip: 'Saltar',
+  points: 'Puntos',
+  pointsTotal: '{points} puntos',
+  answerBy: 'Responder con',
+  voiceInput: 'Voz',
+  typedInput: 'Teclado',
+  textReplies: 'El presentador responde por escrito',
+  typeAnswer: 'Escribe tu respuesta...',
+  send: 'Enviar',
+  micUnavailable: 'No hay micrófono disponible, así que puedes escribir tus respuestas.',
+  gameOver: 'Fin del juego',
+  youScored: 'Has acertado {score} de {total}',
+  newHighScore: '¡Nuevo récord en este tema!',
+  highScore: 'Tu mejor partida en este tema: {score} aciertos',
+  roundByRound: 'Ronda a ronda',
+  reviewAdded: 'Se añadieron {count} preguntas falladas a tu mazo de repaso.',
+  reviewRescheduled: 'Se reprogramaron {count} tarjetas: las acertadas vuelven más tarde, las falladas mañana.',
+  scoredOn: 'sobre',
+  showTranscript: 'Ver la transcripción completa',
+  playAgain: 'Jugar de nuevo',
+  recordSession: 'Grabar esta partida (audio + transcripción)',
+  familyFriendly: 'Apto para toda la familia',
+  familyFriendlyDesc: 'Temas revisados con más rigor, preguntas aptas para niños y un presentador que no se pasa de la raya.',
+  downloadAudio: 'Descargar audio (WAV)',
+  transcriptExport: 'Transcripción:',
+  playerLabel: 'Jugador',
+  difficultyCurve: 'Curva de dificultad',
+  challengeFriend: 'Reta a un amigo',
+  creatingLink: 'Creando enlace...',
+  linkCopied: '¡Enlace copiado! Envíaselo a un amigo.',
+  challengeIntro: '¡Reto aceptado! Tu amigo acertó {score} de {total}. ¿Puedes superarlo?',
+  challengeWon: '¡Has superado los {theirs} de tu amigo!',
+  challengeLost: 'Esta vez gana tu amigo con {theirs}.',
+  challengeTied: '¡Empate con tu amigo a {theirs}!',
+  challengeInvalid: 'No se pudo abrir ese enlace de reto.',
+  challengeLinkFailed: 'No se pudo crear el enlace de reto.',
+  you: 'Tú',
+  host: 'Presentador',
+  transcriptEmpty: 'La conversación aparecerá aquí.',
+  correctLabel: 'aciertos',
+  pointsShort: '{points} pts',
+  leader: 'líder',
+  bestRound: 'mejor ronda',
+  youSaid: 'Dijiste: {answer}',
+  playerSaid: '{player} dijo: {answer}',
+  notAnswered: 'Sin responder',
+  answerLabel: 'Respuesta:',
+  answerSources: 'Fuentes de la respuesta',
+  factSources: 'Fuentes del dato',
+  disputeUpheld: 'Reclamación aceptada: puntuación corregida.',
+  disputeRejected: 'Reclamación rechazada.',
+  verifiedAnswer: 'Respuesta verificada:',
+  factCheckSources: 'Fuentes de la verificación',
+  dispute: 'Reclamar',
+  checking: 'Comprobando...',
+  allSources: 'Todas las fuentes ({count})',
+  yourStats: 'Tus estadísticas',
+  back: '← Volver',
+  loadingHistory: 'Cargando historial...',
+  historyLoadFailed: 'No se pudo cargar tu historial.',
+  noGames: 'Aún no hay partidas. Termina una y aparecerá aquí.',
+  statGames: 'Partidas',
+  statAccuracy: 'Precisión',
+  currentStreak: 'Racha actual',
+  bestStreak: 'Mejor racha',
+  accuracyByTopic: 'Precisión por tema',
+  gameCountOne: '{count} partida',
+  gameCountMany: '{count} partidas',
+  pastGames: 'Partidas anteriores',
+  replay: 'Repetir',
+  deleteGame: 'Eliminar la partida de {topic}',
+  packTitle: 'Título del paquete',
+  packTopic: 'Tema que anuncia el presentador',
+  packAuthor: 'Autor (opcional)',
+  packDescription: 'Descripción (opcional)',
+  importPack: 'Importar JSON / CSV',
+  exportShort: 'Exportar',
+  useThisPack: 'Usar este paquete',
+  packReadFailed: 'No se pudo leer ese archivo.',
+  packRejected: 'Este paquete no se puede jugar.',
+  moveUp: 'Subir',
+  moveDown: 'Bajar',
+  deleteQuestion: 'Eliminar pregunta',
+  questionPlaceholder: 'Pregunta',
+  optionPlaceholder: 'Opción {letter}',
+  answerPlaceholder: 'Respuesta',
+  answerMatchOption: 'Respuesta (debe coincidir con una opción)',
+  factPlaceholder: 'Dato curioso que se cuenta tras la respuesta',
+  answerTrue: 'Verdadero',
+  answerFalse: 'Falso',
+  addQuestion: '+ Añadir pregunta',
+  hostName: 'Nombre del presentador',
+  hostDescription: 'Descripción breve',
+  hostPrompt: '¿Cómo debe comportarse el presentador? p. ej. Un capitán pirata que premia los aciertos con doblones...',
+  catchphrasesPlaceholder: 'Frases típicas, una por línea',
+  preview: 'Escuchar',
+  playing: 'Reproduciendo...',
+  cancel: 'Cancelar',
+  saveHost: 'Guardar presentador',
+  hostPreviewLine: 'Hola, soy {name}. {line} ¡A jugar a la trivia!',
+  yourHost: 'tu presentador',
+  voiceFirm: 'Firme',
+  voiceUpbeat: 'Animada',
+  voiceInformative: 'Informativa',
+  voiceExcitable: 'Entusiasta',
+  voiceBreezy: 'Desenfadada',
+  voiceYouthful: 'Juvenil',
+  voiceFirmDeeper: 'Firme, más grave',
+  voiceBright: 'Brillante',
+  tryOtherTopic: 'Prueba con un tema distinto o más concreto.',
+  generationFailed: 'No se pudieron generar las preguntas. Inténtalo de nuevo.',
+  connectionLost: 'Se perdió la conexión con el presentador.',
+  connectFailed: 'No se pudo conectar con el presentador. Inténtalo de nuevo.',
+  tryAgain: 'Inténtalo de nuevo.',
+  disputeFailed: 'No se pudo comprobar esa respuesta ahora. Inténtalo de nuevo.',
+  questionsFailed: 'No se pudieron crear preguntas sobre {topic}.',
+  topicRejected: '"{topic}" no se puede usar como tema.',
+  topicEmpty: 'El tema está vacío.',
+  topicTooLong: 'El tema debe tener menos de {max} caracteres.',
+  topicMarkup: 'Contiene marcas de control del juego.',
+  topicCheckFailed: 'No se pudo comprobar el tema ahora. Inténtalo de nuevo.',
+  packInvalidQuestions: 'Este paquete tiene preguntas no válidas.',
+  packNotJson: 'El archivo no es un JSON válido.',
+  packNotPack: 'El archivo no contiene un paquete de preguntas.',
+  packUnknownFormat: 'Formato de paquete desconocido "{format}".',
+  csvEmpty: 'El archivo CSV está vacío.',
+  csvMissingColumns: 'Faltan columnas en la cabecera del CSV: {columns}.',
+  packNeedsTitle: 'El paquete necesita un título.',
+  packNeedsTopic: 'El paquete necesita un tema.',
+  packQuestionMarkup: 'La pregunta {number} contiene marcas de control del juego.',
+  invalidNotArray: 'Debe ser una lista JSON de preguntas.',
+  invalidCount: 'Se esperaban exactamente {expected} preguntas, pero hay {actual}.',
+  invalidEmpty: 'Debe haber al menos una pregunta.',
+  invalidNotObject: 'La pregunta {number} no tiene un formato válido.',
+  invalidMissingField: 'A la pregunta {number} le falta el campo "{field}".',
+  invalidEmptyField: 'La pregunta {number} tiene el campo "{field}" vacío.',
+  invalidChoiceCount: 'La pregunta {number} debe tener 3 o 4 opciones.',
+  invalidEmptyChoice: 'La pregunta {number} tiene una opción vacía.',
+  invalidAnswerNotChoice: 'La respuesta de la pregunta {number} no es una de sus opciones.',
+  invalidTrueFalse: 'La respuesta de la pregunta {number} debe ser "True" o "False".',
+  invalidNumeric: 'La respuesta de la pregunta {number} debe ser un número.',
+  invalidDuplicate: 'La pregunta {number} repite la pregunta {first}.',
+  hostNeedsName: 'Ponle un nombre a tu presentador.',
+  hostNeedsPrompt: 'Describe cómo debe comportarse tu presentador.',
+  hostNeedsLanguage: 'Elige el idioma que habla tu presentador.',
+  hostUnknownVoice: 'Voz desconocida "{voice}".',
+  summaryWrap: 'Y hasta aquí la trivia sobre {topic}.',
+  summaryPerfect: '¡Partida perfecta! Acertaste las {total}.',
+  summaryGood: 'Bien hecho, acertaste {score} de {total}.',
+  summaryLow: 'Acertaste {score} de {total}. ¡Hay margen para mejorar!',
+  summaryTie: '¡Empate entre {players} con {score} cada uno!',
+  summaryWinner: '¡{player} se lleva la corona con {score} aciertos!',
+  summaryAnd: 'y',
+  summaryMissed: 'Esto es lo que fallaste.',
+  summaryAnswerWas: 'La respuesta era {answer}.',
+  summaryAlso: 'Además,',
+  summaryMore: 'Y {count} más que puedes repasar en pantalla.',
+  summaryThanks: '¡Gracias por jugar a TrivAI Live!',
+};
+
+const FR: Messages = {
+  tagline: 'Quiz vocal propulsé par Gemini 2.5',
+  questionPack: 'Pack de questions',
+  packSummary: '{count} questions · {topic}',
+  edit: 'Modifier',
+  delete: 'Supprimer',
+  generateInstead: "Générer avec l'IA",
+  chooseTopic: 'Choisissez un thème',
+  topicPlaceholder: 'ex. Pop des années 90, Physique quantique...',
+  multipleRounds: 'Plusieurs manches',
+  singleTopic: 'Un seul thème',
+  roundPlaceholder: 'Thème de la manche {number}',
+  addRound: '+ Ajouter une manche',
+  removeRound: 'Retirer la manche {number}',
+  spinWheel: 'Tourner la roue des catégories',
+  questionsPerRound: 'Questions par manche',
+  questions: 'Questions',
+  questionCountOption: '{count} questions',
+  endlessOption: 'Sans fin ({lives} vies)',
+  questionStyle: 'Type de question',
+  typeOpen: 'Réponse libre',
+  typeMultipleChoice: 'Choix multiple',
+  typeTrueFalse: 'Vrai / Faux',
+  typeNumeric: 'Nombres (le plus proche gagne)',
+  difficulty: 'Difficulté',
+  easy: 'Facile',
+  medium: 'Moyen',
+  hard: 'Difficile',
+  adaptiveDifficulty: 'Difficulté adaptative',
+  adaptiveDifficultyDesc: 'Les questions deviennent plus difficiles ou plus faciles en cours de partie, à partir du niveau choisi.',
+  createPack: 'Ou créez / importez votre propre pack de questions →',
+  players: 'Joueurs',
+  playersOptional: '(facultatif, mode soirée)',
+  addPlayerPlaceholder: 'Ajouter un joueur...',
+  add: 'Ajouter',
+  removePlayer: 'Retirer {name}',
+  takeTurns: 'Chacun son tour',
+  takeTurnsDesc: 'Chaque question passe au joueur suivant.',
+  buzzIn: 'Buzzer',
+  buzzInDesc: 'Le premier à crier son nom répond.',
+  language: 'Langue du jeu',
+  learningMode: 'Apprentissage des langues',
+  learningModeDesc: 'Questions en {language}, explications dans votre langue.',
+  nativeLanguage: 'Votre langue',
+  hostPersonality: "Personnalité de l'animateur",
+  createHost: '+ Créez votre propre animateur',
+  preparing: 'Préparation du jeu...',
+  startGame: 'Lancer la partie en direct',
+  historyStats: 'Historique et statistiques',
+  poweredBy: 'Propulsé par Gemini Live API et Google Search',
+  reviewMode: 'Mode révision',
+  reviewDue: '{count} questions manquées attendent un nouvel essai.',
+  startReview: 'Commencer la révision',
+  reviewTopic: 'Questions manquées',
+  readyTitle: 'Le quiz est prêt !',
+  readyFresh: 'Nous avons {count} nouvelles questions sur',
+  readyPack: 'Nous avons {count} questions choisies sur',
+  readyAdaptive: "Vos {count} questions s'adapteront à votre jeu, toutes sur",
+  readyEndless: "Les questions s'enchaînent jusqu'à ce que vous perdiez vos {lives} vies, toutes sur",
+  readyReview: "C'est l'heure de réviser {count} cartes de votre paquet :",
+  highScoreToBeat: 'Record à battre : {score} bonnes réponses.',
+  readyVolume: 'Montez le son et cliquez sur « Connecter » pour rencontrer votre animateur.',
+  verifiedWith: 'Vérifié avec Google Search :',
+  hideQuestions: 'Masquer les questions',
+  reviewQuestions: 'Revoir et modifier les questions',
+  exportPack: 'Exporter en pack',
+  connect: "Se connecter à l'animateur",
+  liveConnection: 'EN DIRECT',
+  reconnecting: 'RECONNEXION...',
+  connecting: 'CONNEXION...',
+  questionOf: 'Question {current} sur {total}',
+  questionNumber: 'Question {current}',
+  roundOf: 'Manche {current} sur {total} : {topic}',
+  livesLeft: 'Il reste {count} vies',
+  upNow: 'À vous :',
+  score: 'Score',
+  hostVoice: "Voix de l'IA",
+  yourMicrophone: 'Votre micro',
+  liveTranscript: 'Transcription en direct',
+  listening: 'À votre écoute... Parlez clairement pour répondre.',
+  endSession: 'Terminer la session',
+  answerTime: 'Temps de réponse',
+  untimed: 'Illimité',
+  seconds: '{count} s',
+  hint: 'Indice',
+  repeatQuestion: 'Répéter la question',
+  skip: 'Passer',
+  points: 'Points',
+  pointsTotal: '{points} points',
+  answerBy: 'Répondre',
+  voiceInput: 'À la voix',
+  typedInput: 'Au clavier',
+  textReplies: "L'animateur répond par écrit",
+  typeAnswer: 'Tapez votre réponse...',
+  send: 'Envoyer',
+  micUnavailable: 'Aucun micro disponible : vous pouvez taper vos réponses.',
+  gameOver: 'Partie terminée',
+  youScored: 'Vous avez marqué {score} sur {total}',
+  newHighScore: 'Nouveau record sur ce thème !',
+  highScore: 'Votre meilleure partie sur ce thème : {score} bonnes réponses',
+  roundByRound: 'Manche par manche',
+  reviewAdded: '{count} questions manquées ont été ajoutées à votre paquet de révision.',
+  reviewRescheduled: '{count} cartes ont été reprogrammées : les bonnes réponses reviendront plus tard, les erreurs demain.',
+  scoredOn: 'sur le thème',
+  showTranscript: 'Afficher la transcription complète',
+  playAgain: 'Rejouer',
+  recordSession: 'Enregistrer la partie (audio + transcription)',
+  familyFriendly: 'Tous publics',
+  familyFriendlyDesc: 'Sujets vérifiés plus strictement, questions adaptées aux enfants et un animateur qui reste correct.',
+  downloadAudio: "Télécharger l'audio (WAV)",
+  transcriptExport: 'Transcription :',
+  playerLabel: 'Joueur',
+  difficultyCurve: 'Courbe de difficulté',
+  challengeFriend: 'Défier un ami',
+  creatingLink: 'Création du lien...',
+  linkCopied: 'Lien copié ! Envoyez-le à un ami.',
+  challengeIntro: 'Défi accepté ! Votre ami a eu {score} sur {total}. Pouvez-vous faire mieux ?',
+  challengeWon: 'Vous avez battu les {theirs} de votre ami !',
+  challengeLost: "Votre ami l'emporte avec {theirs}.",
+  challengeTied: 'Égalité avec votre ami à {theirs} !',
+  challengeInvalid: "Impossible d'ouvrir ce lien de défi.",
+  challengeLinkFailed: 'Impossible de créer le lien de défi.',
+  you: 'Vous',
+  host: 'Animateur',
+  transcriptEmpty: 'La conversation apparaîtra ici.',
+  correctLabel: 'bonnes réponses',
+  pointsShort: '{points} pts',
+  leader: 'en tête',
+  bestRound: 'meilleure manche',
+  youSaid: 'Vous avez dit : {answer}',
+  playerSaid: '{player} a dit : {answer}',
+  notAnswered: 'Sans réponse',
+  answerLabel: 'Réponse :',
+  answerSources: 'Sources de la réponse',
+  factSources: "Sources de l'anecdote",
+  disputeUpheld: 'Contestation acceptée : score corrigé.',
+  disputeRejected: 'Contestation rejetée.',
+  verifiedAnswer: 'Réponse vérifiée :',
+  factCheckSources: 'Sources de la vérification',
+  dispute: 'Contester',
+  checking: 'Vérification...',
+  allSources: 'Toutes les sources ({count})',
+  yourStats: 'Vos statistiques',
+  back: '← Retour',
+  loadingHistory: "Chargement de l'historique...",
+  historyLoadFailed: 'Impossible de charger votre historique.',
+  noGames: "Aucune partie pour l'instant. Terminez-en une et elle apparaîtra ici.",
+  statGames: 'Parties',
+  statAccuracy: 'Précision',
+  currentStreak: 'Série en cours',
+  bestStreak: 'Meilleure série',
+  accuracyByTopic: 'Précision par sujet',
+  gameCountOne: '{count} partie',
+  gameCountMany: '{count} parties',
+  pastGames: 'Parties précédentes',
+  replay: 'Rejouer',
+  deleteGame: 'Supprimer la partie {topic}',
+  packTitle: 'Titre du pack',
+  packTopic: "Sujet annoncé par l'animateur",
+  packAuthor: 'Auteur (facultatif)',
+  packDescription: 'Description (facultative)',
+  importPack: 'Importer JSON / CSV',
+  exportShort: 'Exporter',
+  useThisPack: 'Utiliser ce pack',
+  packReadFailed: 'Impossible de lire ce fichier.',
+  packRejected: 'Ce paquet ne peut pas être joué.',
+  moveUp: 'Monter',
+  moveDown: 'Descendre',
+  deleteQuestion: 'Supprimer la question',
+  questionPlaceholder: 'Question',
+  optionPlaceholder: 'Option {letter}',
+  answerPlaceholder: 'Réponse',
+  answerMatchOption: 'Réponse (doit correspondre à une option)',
+  factPlaceholder: 'Anecdote partagée après la réponse',
+  answerTrue: 'Vrai',
+  answerFalse: 'Faux',
+  addQuestion: '+ Ajouter une question',
+  hostName: "Nom de l'animateur",
+  hostDescription: 'Courte description',
+  hostPrompt: "Comment l'animateur doit-il se comporter ? ex. Un capitaine pirate qui offre des doublons pour chaque bonne réponse...",
+  catchphrasesPlaceholder: 'Phrases fétiches, une par ligne',
+  preview: 'Écouter',
+  playing: 'Lecture...',
+  cancel: 'Annuler',
+  saveHost: "Enregistrer l'animateur",
+  hostPreviewLine: 'Bonjour, je suis {name}. {line} Place au quiz !',
+  yourHost: 'votre animateur',
+  voiceFirm: 'Ferme',
+  voiceUpbeat: 'Enjouée',
+  voiceInformative: 'Informative',
+  voiceExcitable: 'Exaltée',
+  voiceBreezy: 'Décontractée',
+  voiceYouthful: 'Jeune',
+  voiceFirmDeeper: 'Ferme, plus grave',
+  voiceBright: 'Lumineuse',
+  tryOtherTopic: 'Essayez un thème différent ou plus précis.',
+  generationFailed: 'Impossible de générer les questions. Veuillez réessayer.',
+  connectionLost: "La connexion avec l'animateur a été perdue.",
+  connectFailed: "Impossible de se connecter à l'animateur. Veuillez réessayer.",
+  tryAgain: 'Veuillez réessayer.',
+  disputeFailed: 'Impossible de vérifier cette réponse pour le moment. Veuillez réessayer.',
+  questionsFailed: 'Impossible de créer des questions sur {topic}.',
+  topicRejected: '« {topic} » ne peut pas servir de thème.',
+  topicEmpty: 'Le thème est vide.',
+  topicTooLong: 'Le thème doit faire moins de {max} caractères.',
+  topicMarkup: 'Il contient des balises de contrôle du jeu.',
+  topicCheckFailed: "Impossible de vérifier le thème pour l'instant. Réessayez.",
+  packInvalidQuestions: 'Ce paquet contient des questions non valides.',
+  packNotJson: "Le fichier n'est pas un JSON valide.",
+  packNotPack: 'Le fichier ne contient pas de paquet de questions.',
+  packUnknownFormat: 'Format de paquet inconnu « {format} ».',
+  csvEmpty: 'Le fichier CSV est vide.',
+  csvMissingColumns: "Colonnes manquantes dans l'en-tête CSV : {columns}.",
+  packNeedsTitle: "Le paquet a besoin d'un titre.",
+  packNeedsTopic: "Le paquet a besoin d'un thème.",
+  packQuestionMarkup: 'La question {number} contient des balises de contrôle du jeu.',
+  invalidNotArray: 'Il faut une liste JSON de questions.',
+  invalidCount: '{expected} questions attendues exactement, mais {actual} reçues.',
+  invalidEmpty: 'Il faut au moins une question.',
+  invalidNotObject: "La question {number} n'a pas un format valide.",
+  invalidMissingField: 'Il manque le champ « {field} » à la question {number}.',
+  invalidEmptyField: 'Le champ « {field} » de la question {number} est vide.',
+  invalidChoiceCount: 'La question {number} doit avoir 3 ou 4 options.',
+  invalidEmptyChoice: 'La question {number} a une option vide.',
+  invalidAnswerNotChoice: 'La réponse de la question {number} ne fait pas partie de ses options.',
+  invalidTrueFalse: 'La réponse de la question {number} doit être « True » ou « False ».',
+  invalidNumeric: 'La réponse de la question {number} doit être un nombre.',
+  invalidDuplicate: 'La question {number} reprend la question {first}.',
+  hostNeedsName: 'Donnez un nom à votre animateur.',
+  hostNeedsPrompt: 'Décrivez comment votre animateur doit se comporter.',
+  hostNeedsLanguage: 'Choisissez la langue de votre animateur.',
+  hostUnknownVoice: 'Voix inconnue « {voice} ».',
+  summaryWrap: "C'est la fin du quiz sur {topic}.",
+  summaryPerfect: 'Une partie parfaite ! Vous avez tout juste, {total} sur {total}.',
+  summaryGood: 'Bien joué, vous avez {score} sur {total}.',
+  summaryLow: "Vous avez {score} sur {total}. Il y a de quoi progresser !",
+  summaryTie: 'Égalité entre {players} avec {score} chacun !',
+  summaryWinner: '{player} remporte la couronne avec {score} bonnes réponses !',
+  summaryAnd: 'et',
+  summaryMissed: 'Voici ce que vous avez manqué.',
+  summaryAnswerWas: 'La réponse était {answer}.',
+  summaryAlso: 'Et aussi,',
+  summaryMore: 'Et {count} autres à revoir à l’écran.',
+  summaryThanks: 'Merci d’avoir joué à TrivAI Live !',
+};
+
+const DE: Messages = {
+  tagline: 'Sprachgesteuertes Quiz mit Gemini 2.5',
+  questionPack: 'Fragenpaket',
+  packSummary: '{count} Fragen · {topic}',
+  edit: 'Bearbeiten',
+  delete: 'Löschen',
+  generateInstead: 'Stattdessen mit KI erstellen',
+  chooseTopic: 'Wähle ein Thema',
+  topicPlaceholder: 'z. B. Popmusik der 90er, Quantenphysik...',
+  multipleRounds: 'Mehrere Runden',
+  singleTopic: 'Ein Thema',
+  roundPlaceholder: 'Thema von Runde {number}',
+  addRound: '+ Runde hinzufügen',
+  removeRound: 'Runde {number} entfernen',
+  spinWheel: 'Kategorienrad drehen',
+  questionsPerRound: 'Fragen pro Runde',
+  questions: 'Fragen',
+  questionCountOption: '{count} Fragen',
+  endlessOption: 'Endlos ({lives} Leben)',
+  questionStyle: 'Fragetyp',
+  typeOpen: 'Freie Antwort',
+  typeMultipleChoice: 'Multiple Choice',
+  typeTrueFalse: 'Wahr / Falsch',
+  typeNumeric: 'Zahlen (am nächsten gewinnt)',
+  difficulty: 'Schwierigkeit',
+  easy: 'Leicht',
+  medium: 'Mittel',
+  hard: 'Schwer',
+  adaptiveDifficulty: 'Adaptive Schwierigkeit',
+  adaptiveDifficultyDesc: 'Die Fragen werden beim Spielen schwerer oder leichter, beginnend mit der gewählten Stufe.',
+  createPack: 'Oder eigenes Fragenpaket erstellen / importieren →',
+  players: 'Spieler',
+  playersOptional: '(optional, für den Partymodus)',
+  addPlayerPlaceholder: 'Spielername hinzufügen...',
+  add: 'Hinzufügen',
+  removePlayer: '{name} entfernen',
+  takeTurns: 'Abwechselnd',
+  takeTurnsDesc: 'Jede Frage geht an den nächsten Spieler.',
+  buzzIn: 'Buzzer',
+  buzzInDesc: 'Wer zuerst seinen Namen ruft, antwortet.',
+  language: 'Spielsprache',
+  learningMode: 'Sprachenlernen',
+  learningModeDesc: 'Fragen auf {language}, Erklärungen in deiner Sprache.',
+  nativeLanguage: 'Deine Sprache',
+  hostPersonality: 'Persönlichkeit des Moderators',
+  createHost: '+ Eigenen Moderator erstellen',
+  preparing: 'Spiel wird vorbereitet...',
+  startGame: 'Live-Spiel starten',
+  historyStats: 'Verlauf & Statistiken',
+  poweredBy: 'Mit Gemini Live API & Google Search',
+  reviewMode: 'Wiederholungsmodus',
+  reviewDue: '{count} verpasste Fragen warten auf einen neuen Versuch.',
+  startReview: 'Wiederholung starten',
+  reviewTopic: 'Verpasste Fragen',
+  readyTitle: 'Quiz bereit!',
+  readyFresh: 'Wir haben {count} neue Fragen zu',
+  readyPack: 'Wir haben {count} ausgewählte Fragen zu',
+  readyAdaptive: 'Deine {count} Fragen passen sich deinem Spiel an, alle zum Thema',
+  readyEndless: 'Die Fragen gehen weiter, bis du alle {lives} Leben verloren hast, alle zum Thema',
+  readyReview: 'Zeit, {count} Karten aus deinem Stapel zu wiederholen:',
+  highScoreToBeat: 'Zu schlagender Rekord: {score} richtig.',
+  readyVolume: 'Dreh die Lautstärke auf und klicke auf „Verbinden“, um deinen Moderator zu treffen.',
+  verifiedWith: 'Geprüft mit Google Search:',
+  hideQuestions: 'Fragen ausblenden',
+  reviewQuestions: 'Fragen prüfen & bearbeiten',
+  exportPack: 'Als Paket exportieren',
+  connect: 'Mit dem Moderator verbinden',
+  liveConnection: 'LIVE-VERBINDUNG',
+  reconnecting: 'NEU VERBINDEN...',
+  connecting: 'VERBINDEN...',
+  questionOf: 'Frage {current} von {total}',
+  questionNumber: 'Frage {current}',
+  roundOf: 'Runde {current} von {total}: {topic}',
+  livesLeft: 'Noch {count} Leben',
+  upNow: 'Jetzt dran:',
+  score: 'Punkte',
+  hostVoice: 'KI-Stimme',
+  yourMicrophone: 'Dein Mikrofon',
+  liveTranscript: 'Live-Transkript',
+  listening: 'Ich höre zu... Sprich deutlich, um zu antworten.',
+  endSession: 'Sitzung beenden',
+  answerTime: 'Antwortzeit',
+  untimed: 'Aus',
+  seconds: '{count} s',
+  hint: 'Tipp',
+  repeatQuestion: 'Frage wiederholen',
+  skip: 'Überspringen',
+  points: 'Punkte',
+  pointsTotal: '{points} Punkte',
+  answerBy: 'Antworten per',
+  voiceInput: 'Sprache',
+  typedInput: 'Tastatur',
+  textReplies: 'Moderator antwortet schriftlich',
+  typeAnswer: 'Antwort eintippen...',
+  send: 'Senden',
+  micUnavailable: 'Kein Mikrofon verfügbar, du kannst deine Antworten stattdessen eintippen.',
+  gameOver: 'Spiel vorbei',
+  youScored: 'Du hast {score} von {total} richtig',
+  newHighScore: 'Neuer Rekord für dieses Thema!',
+  highScore: 'Dein bester Lauf zu diesem Thema: {score} richtig',
+  roundByRound: 'Runde für Runde',
+  reviewAdded: '{count} verpasste Fragen wurden deinem Wiederholungsstapel hinzugefügt.',
+  reviewRescheduled: '{count} Karten wurden neu geplant: Richtige kommen später wieder, Fehler morgen.',
+  scoredOn: 'zum Thema',
+  showTranscript: 'Ganzes Transkript anzeigen',
+  playAgain: 'Nochmal spielen',
+  recordSession: 'Dieses Spiel aufnehmen (Audio + Transkript)',
+  familyFriendly: 'Familienfreundlich',
+  familyFriendlyDesc: 'Strengere Themenprüfung, kindgerechte Fragen und ein Moderator ohne derbe Sprüche.',
+  downloadAudio: 'Audio herunterladen (WAV)',
+  transcriptExport: 'Transkript:',
+  playerLabel: 'Spieler',
+  difficultyCurve: 'Schwierigkeitsverlauf',
+  challengeFriend: 'Freund herausfordern',
+  creatingLink: 'Link wird erstellt...',
+  linkCopied: 'Link kopiert! Schick ihn einem Freund.',
+  challengeIntro: 'Herausforderung angenommen! Dein Freund hatte {score} von {total}. Schaffst du mehr?',
+  challengeWon: 'Du hast die {theirs} deines Freundes übertroffen!',
+  challengeLost: 'Diesmal gewinnt dein Freund mit {theirs}.',
+  challengeTied: 'Gleichstand mit deinem Freund bei {theirs}!',
+  challengeInvalid: 'Dieser Herausforderungslink konnte nicht geöffnet werden.',
+  challengeLinkFailed: 'Der Herausforderungslink konnte nicht erstellt werden.',
+  you: 'Du',
+  host: 'Moderator',
+  transcriptEmpty: 'Das Gespräch erscheint hier.',
+  correctLabel: 'richtig',
+  pointsShort: '{points} Pkt.',
+  leader: 'Spitzenreiter',
+  bestRound: 'beste Runde',
+  youSaid: 'Du hast gesagt: {answer}',
+  playerSaid: '{player} hat gesagt: {answer}',
+  notAnswered: 'Nicht beantwortet',
+  answerLabel: 'Antwort:',
+  answerSources: 'Quellen für die Antwort',
+  factSources: 'Quellen für den Fakt',
+  disputeUpheld: 'Einspruch angenommen – Punktestand korrigiert.',
+  disputeRejected: 'Einspruch abgelehnt.',
+  verifiedAnswer: 'Geprüfte Antwort:',
+  factCheckSources: 'Quellen der Prüfung',
+  dispute: 'Einspruch',
+  checking: 'Wird geprüft...',
+  allSources: 'Alle Quellen ({count})',
+  yourStats: 'Deine Statistik',
+  back: '← Zurück',
+  loadingHistory: 'Verlauf wird geladen...',
+  historyLoadFailed: 'Dein Spielverlauf konnte nicht geladen werden.',
+  noGames: 'Noch keine Spiele. Beende ein Spiel, dann erscheint es hier.',
+  statGames: 'Spiele',
+  statAccuracy: 'Trefferquote',
+  currentStreak: 'Aktuelle Serie',
+  bestStreak: 'Beste Serie',
+  accuracyByTopic: 'Trefferquote nach Thema',
+  gameCountOne: '{count} Spiel',
+  gameCountMany: '{count} Spiele',
+  pastGames: 'Vergangene Spiele',
+  replay: 'Nochmal',
+  deleteGame: 'Spiel „{topic}“ löschen',
+  packTitle: 'Titel des Pakets',
+  packTopic: 'Thema, das der Moderator ansagt',
+  packAuthor: 'Autor (optional)',
+  packDescription: 'Beschreibung (optional)',
+  importPack: 'JSON / CSV importieren',
+  exportShort: 'Exportieren',
+  useThisPack: 'Dieses Paket verwenden',
+  packReadFailed: 'Die Datei konnte nicht gelesen werden.',
+  packRejected: 'Dieses Paket kann nicht gespielt werden.',
+  moveUp: 'Nach oben',
+  moveDown: 'Nach unten',
+  deleteQuestion: 'Frage löschen',
+  questionPlaceholder: 'Frage',
+  optionPlaceholder: 'Option {letter}',
+  answerPlaceholder: 'Antwort',
+  answerMatchOption: 'Antwort (muss einer Option entsprechen)',
+  factPlaceholder: 'Fun Fact nach der Antwort',
+  answerTrue: 'Wahr',
+  answerFalse: 'Falsch',
+  addQuestion: '+ Frage hinzufügen',
+  hostName: 'Name des Moderators',
+  hostDescription: 'Kurzbeschreibung',
+  hostPrompt: 'Wie soll sich der Moderator verhalten? z. B. Ein Piratenkapitän, der richtige Antworten mit Dublonen belohnt...',
+  catchphrasesPlaceholder: 'Sprüche, einer pro Zeile',
+  preview: 'Anhören',
+  playing: 'Wird abgespielt...',
+  cancel: 'Abbrechen',
+  saveHost: 'Moderator speichern',
+  hostPreviewLine: 'Hallo, ich bin {name}. {line} Lass uns Quiz spielen!',
+  yourHost: 'dein Moderator',
+  voiceFirm: 'Bestimmt',
+  voiceUpbeat: 'Fröhlich',
+  voiceInformative: 'Sachlich',
+  voiceExcitable: 'Aufgeregt',
+  voiceBreezy: 'Locker',
+  voiceYouthful: 'Jugendlich',
+  voiceFirmDeeper: 'Bestimmt, tiefer',
+  voiceBright: 'Hell',
+  tryOtherTopic: 'Versuch ein anderes oder genaueres Thema.',
+  generationFailed: 'Fragen konnten nicht erstellt werden. Bitte versuch es noch einmal.',
+  connectionLost: 'Die Verbindung zum Moderator ist abgebrochen.',
+  connectFailed: 'Verbindung zum Moderator fehlgeschlagen. Bitte versuch es noch einmal.',
+  tryAgain: 'Bitte versuch es noch einmal.',
+  disputeFailed: 'Die Antwort konnte gerade nicht geprüft werden. Bitte versuch es noch einmal.',
+  questionsFailed: 'Es konnten keine Fragen zu {topic} erstellt werden.',
+  topicRejected: '„{topic}“ kann nicht als Thema verwendet werden.',
+  topicEmpty: 'Das Thema ist leer.',
+  topicTooLong: 'Das Thema muss kürzer als {max} Zeichen sein.',
+  topicMarkup: 'Es enthält Steuermarkierungen des Spiels.',
+  topicCheckFailed: 'Das Thema konnte gerade nicht geprüft werden. Bitte versuch es noch einmal.',
+  packInvalidQuestions: 'Dieses Paket enthält ungültige Fragen.',
+  packNotJson: 'Die Datei ist kein gültiges JSON.',
+  packNotPack: 'Die Datei enthält kein Fragenpaket.',
+  packUnknownFormat: 'Unbekanntes Paketformat „{format}“.',
+  csvEmpty: 'Die CSV-Datei ist leer.',
+  csvMissingColumns: 'In der CSV-Kopfzeile fehlt: {columns}.',
+  packNeedsTitle: 'Das Paket braucht einen Titel.',
+  packNeedsTopic: 'Das Paket braucht ein Thema.',
+  packQuestionMarkup: 'Frage {number} enthält Steuermarkierungen des Spiels.',
+  invalidNotArray: 'Erwartet wird eine JSON-Liste von Fragen.',
+  invalidCount: 'Genau {expected} Fragen erwartet, aber {actual} erhalten.',
+  invalidEmpty: 'Es muss mindestens eine Frage geben.',
+  invalidNotObject: 'Frage {number} hat kein gültiges Format.',
+  invalidMissingField: 'Bei Frage {number} fehlt das Feld „{field}“.',
+  invalidEmptyField: 'Bei Frage {number} ist „{field}“ leer.',
+  invalidChoiceCount: 'Frage {number} muss 3 oder 4 Optionen haben.',
+  invalidEmptyChoice: 'Frage {number} hat eine leere Option.',
+  invalidAnswerNotChoice: 'Die Antwort von Frage {number} ist keine ihrer Optionen.',
+  invalidTrueFalse: 'Die Antwort von Frage {number} muss „True“ oder „False“ sein.',
+  invalidNumeric: 'Die Antwort von Frage {number} muss eine Zahl sein.',
+  invalidDuplicate: 'Frage {number} wiederholt Frage {first}.',
+  hostNeedsName: 'Gib deinem Moderator einen Namen.',
+  hostNeedsPrompt: 'Beschreibe, wie sich dein Moderator verhalten soll.',
+  hostNeedsLanguage: 'Wähle die Sprache deines Moderators.',
+  hostUnknownVoice: 'Unbekannte Stimme „{voice}“.',
+  summaryWrap: 'Das war unser Quiz zu {topic}.',
+  summaryPerfect: 'Ein perfektes Spiel! Du hast alle {total} richtig.',
+  summaryGood: 'Gut gemacht, du hast {score} von {total} richtig.',
+  summaryLow: 'Du hast {score} von {total} richtig. Da geht noch was!',
+  summaryTie: 'Gleichstand zwischen {players} mit je {score}!',
+  summaryWinner: '{player} holt sich die Krone mit {score} richtigen Antworten!',
+  summaryAnd: 'und',
+  summaryMissed: 'Das hast du verpasst.',
+  summaryAnswerWas: 'Die Antwort war {answer}.',
+  summaryAlso: 'Außerdem:',
+  summaryMore: 'Und {count} weitere, die du dir auf dem Bildschirm ansehen kannst.',
+  summaryThanks: 'Danke, dass du TrivAI Live gespielt hast!',
+};
+
+const PT: Messages = {
+  tagline: 'Trivia por voz com Gemini 2.5',
+  questionPack: 'Pacote de perguntas',
+  packSummary: '{count} perguntas · {topic}',
+  edit: 'Editar',
+  delete: 'Excluir',
+  generateInstead: 'Gerar com IA',
+  chooseTopic: 'Escolha um tema',
+  topicPlaceholder: 'ex. Pop dos anos 90, Física quântica...',
+  multipleRounds: 'Várias rodadas',
+  singleTopic: 'Um só tema',
+  roundPlaceholder: 'Tema da rodada {number}',
+  addRound: '+ Adicionar rodada',
+  removeRound: 'Remover a rodada {number}',
+  spinWheel: 'Girar a roleta de categorias',
+  questionsPerRound: 'Perguntas por rodada',
+  questions: 'Perguntas',
+  questionCountOption: '{count} perguntas',
+  endlessOption: 'Sem fim ({lives} vidas)',
+  questionStyle: 'Tipo de pergunta',
+  typeOpen: 'Resposta livre',
+  typeMultipleChoice: 'Múltipla escolha',
+  typeTrueFalse: 'Verdadeiro / Falso',
+  typeNumeric: 'Números (o mais próximo vence)',
+  difficulty: 'Dificuldade',
+  easy: 'Fácil',
+  medium: 'Média',
+  hard: 'Difícil',
+  adaptiveDifficulty: 'Dificuldade adaptativa',
+  adaptiveDifficultyDesc: 'As perguntas ficam mais difíceis ou fáceis enquanto você joga, começando pelo nível escolhido.',
+  createPack: 'Ou crie / importe seu próprio pacote de perguntas →',
+  players: 'Jogadores',
+  playersOptional: '(opcional, para modo festa)',
+  addPlayerPlaceholder: 'Adicione um jogador...',
+  add: 'Adicionar',
+  removePlayer: 'Remover {name}',
+  takeTurns: 'Por turnos',
+  takeTurnsDesc: 'Cada pergunta vai para o próximo jogador.',
+  buzzIn: 'Campainha',
+  buzzInDesc: 'Quem disser o próprio nome primeiro responde.',
+  language: 'Idioma do jogo',
+  learningMode: 'Aprender idiomas',
+  learningModeDesc: 'Perguntas em {language}, explicações no seu idioma.',
+  nativeLanguage: 'Seu idioma',
+  hostPersonality: 'Personalidade do apresentador',
+  createHost: '+ Crie seu próprio apresentador',
+  preparing: 'Preparando o jogo...',
+  startGame: 'Começar jogo ao vivo',
+  historyStats: 'Histórico e estatísticas',
+  poweredBy: 'Com Gemini Live API e Google Search',
+  reviewMode: 'Modo revisão',
+  reviewDue: '{count} perguntas erradas esperam outra tentativa.',
+  startReview: 'Começar revisão',
+  reviewTopic: 'Perguntas erradas',
+  readyTitle: 'Trivia pronta!',
+  readyFresh: 'Temos {count} perguntas novas sobre',
+  readyPack: 'Temos {count} perguntas selecionadas sobre',
+  readyAdaptive: 'Suas {count} perguntas vão se adaptar ao seu jogo, todas sobre',
+  readyEndless: 'As perguntas continuam até você perder suas {lives} vidas, todas sobre',
+  readyReview: 'Hora de revisar {count} cartões do seu baralho:',
+  highScoreToBeat: 'Recorde a bater: {score} acertos.',
+  readyVolume: 'Aumente o volume e clique em "Conectar" para conhecer seu apresentador.',
+  verifiedWith: 'Verificado com Google Search:',
+  hideQuestions: 'Ocultar perguntas',
+  reviewQuestions: 'Revisar e editar perguntas',
+  exportPack: 'Exportar como pacote',
+  connect: 'Conectar ao apresentador',
+  liveConnection: 'AO VIVO',
+  reconnecting: 'RECONECTANDO...',
+  connecting: 'CONECTANDO...',
+  questionOf: 'Pergunta {current} de {total}',
+  questionNumber: 'Pergunta {current}',
+  roundOf: 'Rodada {current} de {total}: {topic}',
+  livesLeft: 'Restam {count} vidas',
+  upNow: 'Vez de:',
+  score: 'Pontos',
+  hostVoice: 'Voz da IA',
+  yourMicrophone: 'Seu microfone',
+  liveTranscript: 'Transcrição ao vivo',
+  listening: 'Ouvindo... Fale com clareza para responder.',
+  endSession: 'Encerrar sessão',
+  answerTime: 'Tempo de resposta',
+  untimed: 'Sem limite',
+  seconds: '{count} s',
+  hint: 'Dica',
+  repeatQuestion: 'Repetir pergunta',
+  skip: 'Pular',
+  points: 'Pontos',
+  pointsTotal: '{points} pontos',
+  answerBy: 'Responder por',
+  voiceInput: 'Voz',
+  typedInput: 'Teclado',
+  textReplies: 'O apresentador responde por escrito',
+  typeAnswer: 'Digite sua resposta...',
+  send: 'Enviar',
+  micUnavailable: 'Nenhum microfone disponível, então você pode digitar suas respostas.',
+  gameOver: 'Fim de jogo',
+  youScored: 'Você acertou {score} de {total}',
+  newHighScore: 'Novo recorde neste tema!',
+  highScore: 'Sua melhor partida neste tema: {score} acertos',
+  roundByRound: 'Rodada a rodada',
+  reviewAdded: '{count} perguntas erradas foram adicionadas ao seu baralho de revisão.',
+  reviewRescheduled: '{count} cartões foram reagendados: os acertos voltam mais tarde, os erros amanhã.',
+  scoredOn: 'sobre',
+  showTranscript: 'Mostrar transcrição completa',
+  playAgain: 'Jogar de novo',
+  recordSession: 'Gravar esta partida (áudio + transcrição)',
+  familyFriendly: 'Para toda a família',
+  familyFriendlyDesc: 'Temas verificados com mais rigor, perguntas adequadas a crianças e um apresentador sempre educado.',
+  downloadAudio: 'Baixar áudio (WAV)',
+  transcriptExport: 'Transcrição:',
+  playerLabel: 'Jogador',
+  difficultyCurve: 'Curva de dificuldade',
+  challengeFriend: 'Desafiar um amigo',
+  creatingLink: 'Criando link...',
+  linkCopied: 'Link copiado! Envie para um amigo.',
+  challengeIntro: 'Desafio aceito! Seu amigo acertou {score} de {total}. Consegue superar?',
+  challengeWon: 'Você superou os {theirs} do seu amigo!',
+  challengeLost: 'Seu amigo vence desta vez com {theirs}.',
+  challengeTied: 'Empate com seu amigo em {theirs}!',
+  challengeInvalid: 'Não foi possível abrir esse link de desafio.',
+  challengeLinkFailed: 'Não foi possível criar o link de desafio.',
+  you: 'Você',
+  host: 'Apresentador',
+  transcriptEmpty: 'A conversa aparecerá aqui.',
+  correctLabel: 'certas',
+  pointsShort: '{points} pts',
+  leader: 'líder',
+  bestRound: 'melhor rodada',
+  youSaid: 'Você disse: {answer}',
+  playerSaid: '{player} disse: {answer}',
+  notAnswered: 'Sem resposta',
+  answerLabel: 'Resposta:',
+  answerSources: 'Fontes da resposta',
+  factSources: 'Fontes da curiosidade',
+  disputeUpheld: 'Contestação aceita: pontuação corrigida.',
+  disputeRejected: 'Contestação rejeitada.',
+  verifiedAnswer: 'Resposta verificada:',
+  factCheckSources: 'Fontes da verificação',
+  dispute: 'Contestar',
+  checking: 'Verificando...',
+  allSources: 'Todas as fontes ({count})',
+  yourStats: 'Suas estatísticas',
+  back: '← Voltar',
+  loadingHistory: 'Carregando histórico...',
+  historyLoadFailed: 'Não foi possível carregar seu histórico.',
+  noGames: 'Nenhuma partida ainda. Termine uma e ela aparecerá aqui.',
+  statGames: 'Partidas',
+  statAccuracy: 'Precisão',
+  currentStreak: 'Sequência atual',
+  bestStreak: 'Melhor sequência',
+  accuracyByTopic: 'Precisão por tema',
+  gameCountOne: '{count} partida',
+  gameCountMany: '{count} partidas',
+  pastGames: 'Partidas anteriores',
+  replay: 'Jogar de novo',
+  deleteGame: 'Excluir a partida de {topic}',
+  packTitle: 'Título do pacote',
+  packTopic: 'Tema anunciado pelo apresentador',
+  packAuthor: 'Autor (opcional)',
+  packDescription: 'Descrição (opcional)',
+  importPack: 'Importar JSON / CSV',
+  exportShort: 'Exportar',
+  useThisPack: 'Usar este pacote',
+  packReadFailed: 'Não foi possível ler esse arquivo.',
+  packRejected: 'Este pacote não pode ser jogado.',
+  moveUp: 'Mover para cima',
+  moveDown: 'Mover para baixo',
+  deleteQuestion: 'Excluir pergunta',
+  questionPlaceholder: 'Pergunta',
+  optionPlaceholder: 'Opção {letter}',
+  answerPlaceholder: 'Resposta',
+  answerMatchOption: 'Resposta (deve coincidir com uma opção)',
+  factPlaceholder: 'Curiosidade contada após a resposta',
+  answerTrue: 'Verdadeiro',
+  answerFalse: 'Falso',
+  addQuestion: '+ Adicionar pergunta',
+  hostName: 'Nome do apresentador',
+  hostDescription: 'Descrição curta',
+  hostPrompt: 'Como o apresentador deve se comportar? ex. Um capitão pirata que dá dobrões por respostas certas...',
+  catchphrasesPlaceholder: 'Bordões, um por linha',
+  preview: 'Ouvir',
+  playing: 'Tocando...',
+  cancel: 'Cancelar',
+  saveHost: 'Salvar apresentador',
+  hostPreviewLine: 'Olá, eu sou {name}. {line} Vamos jogar trivia!',
+  yourHost: 'seu apresentador',
+  voiceFirm: 'Firme',
+  voiceUpbeat: 'Animada',
+  voiceInformative: 'Informativa',
+  voiceExcitable: 'Empolgada',
+  voiceBreezy: 'Descontraída',
+  voiceYouthful: 'Jovem',
+  voiceFirmDeeper: 'Firme, mais grave',
+  voiceBright: 'Brilhante',
+  tryOtherTopic: 'Tente um tema diferente ou mais específico.',
+  generationFailed: 'Não foi possível gerar as perguntas. Tente novamente.',
+  connectionLost: 'A conexão com o apresentador caiu.',
+  connectFailed: 'Não foi possível conectar ao apresentador. Tente novamente.',
+  tryAgain: 'Tente novamente.',
+  disputeFailed: 'Não foi possível verificar essa resposta agora. Tente novamente.',
+  questionsFailed: 'Não foi possível criar perguntas sobre {topic}.',
+  topicRejected: '"{topic}" não pode ser usado como tema.',
+  topicEmpty: 'O tema está vazio.',
+  topicTooLong: 'O tema deve ter menos de {max} caracteres.',
+  topicMarkup: 'Contém marcações de controle do jogo.',
+  topicCheckFailed: 'Não foi possível verificar o tema agora. Tente novamente.',
+  packInvalidQuestions: 'Este pacote tem perguntas inválidas.',
+  packNotJson: 'O arquivo não é um JSON válido.',
+  packNotPack: 'O arquivo não contém um pacote de perguntas.',
+  packUnknownFormat: 'Formato de pacote desconhecido "{format}".',
+  csvEmpty: 'O arquivo CSV está vazio.',
+  csvMissingColumns: 'Faltam colunas no cabeçalho do CSV: {columns}.',
+  packNeedsTitle: 'O pacote precisa de um título.',
+  packNeedsTopic: 'O pacote precisa de um tema.',
+  packQuestionMarkup: 'A pergunta {number} contém marcações de controle do jogo.',
+  invalidNotArray: 'Deve ser uma lista JSON de perguntas.',
+  invalidCount: 'Eram esperadas exatamente {expected} perguntas, mas há {actual}.',
+  invalidEmpty: 'Deve haver pelo menos uma pergunta.',
+  invalidNotObject: 'A pergunta {number} não tem um formato válido.',
+  invalidMissingField: 'Falta o campo "{field}" na pergunta {number}.',
+  invalidEmptyField: 'O campo "{field}" da pergunta {number} está vazio.',
+  invalidChoiceCount: 'A pergunta {number} deve ter 3 ou 4 opções.',
+  invalidEmptyChoice: 'A pergunta {number} tem uma opção vazia.',
+  invalidAnswerNotChoice: 'A resposta da pergunta {number} não é uma de suas opções.',
+  invalidTrueFalse: 'A resposta da pergunta {number} deve ser "True" ou "False".',
+  invalidNumeric: 'A resposta da pergunta {number} deve ser um número.',
+  invalidDuplicate: 'A pergunta {number} repete a pergunta {first}.',
+  hostNeedsName: 'Dê um nome ao seu apresentador.',
+  hostNeedsPrompt: 'Descreva como seu apresentador deve se comportar.',
+  hostNeedsLanguage: 'Escolha o idioma do seu apresentador.',
+  hostUnknownVoice: 'Voz desconhecida "{voice}".',
+  summaryWrap: 'E assim terminamos a trivia sobre {topic}.',
+  summaryPerfect: 'Um jogo perfeito! Você acertou todas as {total}.',
+  summaryGood: 'Muito bem, você acertou {score} de {total}.',
+  summaryLow: 'Você acertou {score} de {total}. Dá para melhorar!',
+  summaryTie: 'Empate entre {players} com {score} cada!',
+  summaryWinner: '{player} leva a coroa com {score} acertos!',
+  summaryAnd: 'e',
+  summaryMissed: 'Veja o que você errou.',
+  summaryAnswerWas: 'A resposta era {answer}.',
+  summaryAlso: 'Além disso,',
+  summaryMore: 'E mais {count} para revisar na tela.',
+  summaryThanks: 'Obrigado por jogar TrivAI Live!',
+};
+
+const MESSAGES: Record<LanguageCode, Messages> = { en: EN, es: ES, fr: FR, de: DE, pt: PT };
+
+// Looks up a UI string and fills in {placeholders}
+export const t = (language: LanguageCode, key: MessageKey, params: Record<string, string | number> = {}): string => {
+  const template = (MESSAGES[language] ?? EN)[key] ?? EN[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+// A catalog message with its placeholder values, for problems found in services and shown by the UI
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: Record<string, string | number>;
+}
+
+export const localize = (language: LanguageCode, message: LocalizedMessage): string =>
+  t(language, message.key, message.params);
+
+export const languageName = (code: LanguageCode): string =>
+  LANGUAGES.find(l => l.code === code)?.name ?? code;
+
+// Language learning: the host asks in the target language and explains in the player's own
+export const isLearningMode = (config: TriviaConfig): boolean =>
+  !!config.nativeLanguage && config.nativeLanguage !== config.language;
+
+// Players read the interface (and hear the recap) in the language they are most comfortable with
+export const uiLanguage = (config: TriviaConfig | null): LanguageCode =>
+  config ? (isLearningMode(config) ? config.nativeLanguage! : config.language) : 'en';
@@ -0,0 +1,418 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LiveCallbacks, LiveServerMessage } from '@google/genai';
+import { TriviaConfig } from '../types';
+import { arrayBufferToBase64 } from './audioUtils';
+import { LiveTriviaSession, LiveTriviaSessionDeps, LiveTriviaSessionOptions } from './liveTriviaSession';
+import type { MicCapture } from './micCapture';
+import { BUILT_IN_PERSONALITIES } from './personalities';
+import type { LiveConnectOptions, LiveSessionHandle } from './triviaProvider';
+
+interface FakeBufferSource {
+  buffer: unknown;
+  onended: (() => void) | null;
+  connect: ReturnType<typeof vi.fn>;
+  start: ReturnType<typeof vi.fn>;
+  stop: ReturnType<typeof vi.fn>;
+}
+
+// Just enough of the Web Audio API for the session's graph: nodes record what was done to them
+class FakeAudioContext {
+  currentTime = 0;
+  destination = {};
+  closed = false;
+  bufferSources: FakeBufferSource[] = [];
+
+  constructor(readonly options: AudioContextOptions) {}
+
+  createAnalyser() {
+    return { fftSize: 0, connect: vi.fn(), disconnect: vi.fn() };
+  }
+
+  createMediaStreamSource() {
+    return { connect: vi.fn(), disconnect: vi.fn() };
+  }
+
+  createBuffer(channels: number, length: number, sampleRate: number) {
+    const data = Array.from({ length: channels }, () => new Float32Array(length));
+    return { duration: length / sampleRate, length, sampleRate, getChannelData: (c: number) => data[c] };
+  }
+
+  createBufferSource(): FakeBufferSource {
+    const node: FakeBufferSource = {
+      buffer: null,
+      onended: null,
+      connect: vi.fn(),
+      start: vi.fn(),
+      stop: vi.fn(),
+    };
+    this.bufferSources.push(node);
+    return node;
+  }
+
+  close() {
+    this.closed = true;
+    return Promise.resolve();
+  }
+}
+
+// Node has no CloseEvent, and the session never looks inside it
+const closeEvent = () => ({ type: 'close' }) as CloseEvent;
+
+interface FakeConnection {
+  options: LiveConnectOptions;
+  callbacks: LiveCallbacks;
+  session: { [K in keyof LiveSessionHandle]: ReturnType<typeof vi.fn> };
+}
+
+// Live transport double: each connect() call is recorded with its callbacks and resolves to a spy session.
+// Like the SDK, a connection that fails to open fires onerror and onclose and never settles
+const createFakeTransport = () => {
+  const connections: FakeConnection[] = [];
+  let failures = 0;
+  let hangs = 0;
+  const connect = vi.fn((options: LiveConnectOptions): Promise<LiveSessionHandle> => {
+    const session = {
+      sendRealtimeInput: vi.fn(),
+      sendClientContent: vi.fn(),
+      sendToolResponse: vi.fn(),
+      close: vi.fn(),
+    };
+    connections.push({ options, callbacks: options.callbacks, session });
+    if (failures > 0) {
+      failures--;
+      Promise.resolve().then(() => {
+        options.callbacks.onerror?.({ type: 'error' } as ErrorEvent);
+        options.callbacks.onclose?.(closeEvent());
+      });
+      return new Promise(() => {});
+    }
+    if (hangs > 0) {
+      hangs--;
+      return new Promise(() => {});
+    }
+    return Promise.resolve(session);
+  });
+  return {
+    connect,
+    connections,
+    latest: () => connections[connections.length - 1],
+    failNext: (count: number) => { failures = count; },
+    hangNext: () => { hangs = 1; },
+  };
+};
+
+const config: TriviaConfig = {
+  topic: 'Space',
+  personality: BUILT_IN_PERSONALITIES[0],
+  questionCount: 3,
+  difficulty: 'easy',
+  questionType: 'open',
+  players: [],
+  turnMode: 'turns',
+  language: 'en',
+  inputMode: 'text',
+};
+
+// 0.1 s of 24 kHz mono PCM, as the host's audio parts carry it
+const audioPart = (samples = 2400) => arrayBufferToBase64(new Int16Array(samples).buffer);
+
+const message = (fields: Partial<LiveServerMessage>) => fields as LiveServerMessage;
+
+// handleMessage decodes audio asynchronously, so let its promise chain settle
+const flush = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+describe('LiveTriviaSession', () => {
+  let transport: ReturnType<typeof createFakeTransport>;
+  let contexts: FakeAudioContext[];
+  let track: { stop: ReturnType<typeof vi.fn> };
+  let micCallback: ((blob: { data: string; mimeType: string }, samples: Float32Array) => void) | null;
+  let capture: { kind: 'worklet'; stop: ReturnType<typeof vi.fn> };
+  let deps: LiveTriviaSessionDeps;
+
+  const createSession = (options: Partial<LiveTriviaSessionOptions> = {}) =>
+    new LiveTriviaSession({ config, questions: [], systemInstruction: 'Host the game.', ...options }, deps);
+
+  const outputCtx = () => contexts.find(c => c.options.sampleRate === 24000)!;
+
+  beforeEach(() => {
+    transport = createFakeTransport();
+    contexts = [];
+    track = { stop: vi.fn() };
+    micCallback = null;
+    capture = { kind: 'worklet', stop: vi.fn() };
+    deps = {
+      connect: transport.connect,
+      createAudioContext: (options) => {
+        const ctx = new FakeAudioContext(options);
+        contexts.push(ctx);
+        return ctx as unknown as AudioContext;
+      },
+      getUserMedia: vi.fn(async () => ({ getTracks: () => [track] }) as unknown as MediaStream),
+      startMicCapture: vi.fn(async (_ctx, _source, onChunk) => {
+        micCallback = onChunk;
+        return capture;
+      }),
+    };
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('connect', () => {
+    it('connects with the system instruction and reports when the connection opens', async () => {
+      const session = createSession();
+      const connected = vi.fn();
+      session.on('connected', connected);
+
+      await session.start();
+      expect(transport.connect).toHaveBeenCalledTimes(1);
+      expect(transport.latest().options.systemInstruction).toBe('Host the game.');
+      expect(transport.latest().options.resumptionHandle).toBeUndefined();
+
+      transport.latest().callbacks.onopen?.();
+      expect(connected).toHaveBeenCalledWith({ resumed: false });
+    });
+
+    it('skips the microphone in text games', async () => {
+      await createSession().start();
+      expect(deps.getUserMedia).not.toHaveBeenCalled();
+    });
+
+    it('forwards mic chunks only once the connection is open', async () => {
+      const session = createSession({ config: { ...config, inputMode: 'voice' } });
+      const micAudio = vi.fn();
+      session.on('micAudio', micAudio);
+      await session.start();
+      const blob = { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' };
+
+      micCallback!(blob, new Float32Array(640));
+      await flush();
+      expect(transport.latest().session.sendRealtimeInput).not.toHaveBeenCalled();
+      expect(micAudio).toHaveBeenCalledTimes(1);
+
+      transport.latest().callbacks.onopen?.();
+      micCallback!(blob, new Float32Array(640));
+      await flush();
+      expect(transport.latest().session.sendRealtimeInput).toHaveBeenCalledWith({ media: blob });
+    });
+
+    it('rejects when the first connection fails to open', async () => {
+      transport.failNext(1);
+      await expect(createSession().start()).rejects.toMatchObject({ type: 'error' });
+    });
+
+    it('rejects when the connection never opens', async () => {
+      vi.useFakeTimers();
+      transport.hangNext();
+      const started = createSession().start();
+      const settled = expect(started).rejects.toThrow('timed out');
+      await vi.advanceTimersByTimeAsync(15000);
+      await settled;
+    });
+
+    it('carries on without a mic when permission is denied', async () => {
+      deps.getUserMedia = vi.fn(async () => { throw new Error('NotAllowedError'); });
+      const session = createSession({ config: { ...config, inputMode: 'voice' } });
+      const micUnavailable = vi.fn();
+      session.on('micUnavailable', micUnavailable);
+
+      await session.start();
+      expect(micUnavailable).toHaveBeenCalledTimes(1);
+      expect(transport.connect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('modelAudio', () => {
+    it('schedules consecutive chunks back to back from the current time', async () => {
+      const session = createSession();
+      const modelAudio = vi.fn();
+      session.on('modelAudio', modelAudio);
+      await session.start();
+      outputCtx().currentTime = 2;
+
+      const { callbacks } = transport.latest();
+      callbacks.onmessage(message({ serverContent: { modelTurn: { parts: [{ inlineData: { data: audioPart() } }] } } }));
+      await flush();
+      callbacks.onmessage(message({ serverContent: { modelTurn: { parts: [{ inlineData: { data: audioPart() } }] } } }));
+      await flush();
+
+      const starts = modelAudio.mock.calls.map(([event]) => event.startTime);
+      expect(starts[0]).toBe(2);
+      expect(starts[1]).toBeCloseTo(2.1);
+      expect(outputCtx().bufferSources.map(s => s.start.mock.calls[0][0])).toEqual(starts);
+      expect(session.remainingPlaybackMs()).toBeCloseTo(200);
+    });
+
+    it('does not schedule into the past after a gap', async () => {
+      const session = createSession();
+      const modelAudio = vi.fn();
+      session.on('modelAudio', modelAudio);
+      await session.start();
+
+      const { callbacks } = transport.latest();
+      callbacks.onmessage(message({ serverContent: { modelTurn: { parts: [{ inlineData: { data: audioPart() } }] } } }));
+      await flush();
+      outputCtx().currentTime = 5;
+      callbacks.onmessage(message({ serverContent: { modelTurn: { parts: [{ inlineData: { data: audioPart() } }] } } }));
+      await flush();
+
+      expect(modelAudio.mock.calls[1][0].startTime).toBe(5);
+    });
+  });
+
+  describe('interruption', () => {
+    it('stops queued audio and restarts scheduling from now', async () => {
+      const session = createSession();
+      const interrupted = vi.fn();
+      session.on('interrupted', interrupted);
+      await session.start();
+
+      const { callbacks } = transport.latest();
+      callbacks.onmessage(message({ serverContent: { modelTurn: { parts: [{ inlineData: { data: audioPart() } }] } } }));
+      await flush();
+      callbacks.onmessage(message({ serverContent: { interrupted: true } }));
+      await flush();
+
+      expect(interrupted).toHaveBeenCalledTimes(1);
+      expect(outputCtx().bufferSources[0].stop).toHaveBeenCalled();
+      expect(session.remainingPlaybackMs()).toBe(0);
+    });
+  });
+
+  describe('reconnect', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    it('reconnects with the resumption handle when the server sends goAway', async () => {
+      const session = createSession();
+      const reconnecting = vi.fn();
+      const connected = vi.fn();
+      session.on('reconnecting', reconnecting);
+      session.on('connected', connected);
+      await session.start();
+      const first = transport.latest();
+      first.callbacks.onopen?.();
+
+      first.callbacks.onmessage(message({ sessionResumptionUpdate: { resumable: true, newHandle: 'handle-1' } }));
+      first.callbacks.onmessage(message({ goAway: { timeLeft: '1s' } }));
+      await flush();
+      expect(first.session.close).toHaveBeenCalled();
+      expect(reconnecting).toHaveBeenCalledWith({ attempt: 1 });
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(transport.connect).toHaveBeenCalledTimes(2);
+      const second = transport.latest();
+      expect(second.options.resumptionHandle).toBe('handle-1');
+
+      // The old connection's late close must not start another reconnect
+      first.callbacks.onclose?.(closeEvent());
+      second.callbacks.onopen?.();
+      expect(connected).toHaveBeenLastCalledWith({ resumed: true });
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(transport.connect).toHaveBeenCalledTimes(2);
+    });
+
+    it('sends the resume prompt after reconnecting without a handle', async () => {
+      const session = createSession({ resumePrompt: () => 'Continue from Q2.' });
+      await session.start();
+      transport.latest().callbacks.onclose?.(closeEvent());
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(transport.latest().session.sendClientContent).toHaveBeenCalledWith({ turns: 'Continue from Q2.', turnComplete: true });
+    });
+
+    it('backs off between attempts and ends the game once they run out', async () => {
+      const session = createSession();
+      const error = vi.fn();
+      const closed = vi.fn();
+      session.on('error', error);
+      session.on('closed', closed);
+      await session.start();
+
+      transport.failNext(3);
+      transport.latest().callbacks.onclose?.(closeEvent());
+      await vi.advanceTimersByTimeAsync(500);
+      expect(transport.connect).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(transport.connect).toHaveBeenCalledTimes(3);
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(transport.connect).toHaveBeenCalledTimes(4);
+
+      expect(error).toHaveBeenCalledTimes(1);
+      expect(closed).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('end', () => {
+    it('closes the connection, the mic and both audio contexts exactly once', async () => {
+      const session = createSession({ config: { ...config, inputMode: 'voice' } });
+      const closed = vi.fn();
+      session.on('closed', closed);
+      await session.start();
+      const { session: handle } = transport.latest();
+
+      session.end();
+      session.end();
+
+      expect(handle.close).toHaveBeenCalledTimes(1);
+      expect(capture.stop).toHaveBeenCalledTimes(1);
+      expect(track.stop).toHaveBeenCalledTimes(1);
+      expect(contexts.every(c => c.closed)).toBe(true);
+      expect(closed).toHaveBeenCalledTimes(1);
+    });
+
+    it('releases the mic when the game ends while permission is pending', async () => {
+      let grant: (stream: MediaStream) => void = () => {};
+      deps.getUserMedia = vi.fn(() => new Promise<MediaStream>(resolve => { grant = resolve; }));
+      const session = createSession({ config: { ...config, inputMode: 'voice' } });
+
+      const started = session.start();
+      session.end();
+      grant({ getTracks: () => [track] } as unknown as MediaStream);
+      await started;
+
+      expect(track.stop).toHaveBeenCalledTimes(1);
+      expect(deps.startMicCapture).not.toHaveBeenCalled();
+      expect(transport.connect).not.toHaveBeenCalled();
+    });
+
+    it('stops the capture when the game ends while it is starting', async () => {
+      let ready: (capture: MicCapture) => void = () => {};
+      deps.startMicCapture = vi.fn(() => new Promise<MicCapture>(resolve => { ready = resolve; }));
+      const session = createSession({ config: { ...config, inputMode: 'voice' } });
+
+      const started = session.start();
+      await flush();
+      session.end();
+      ready(capture);
+      await started;
+
+      expect(capture.stop).toHaveBeenCalledTimes(1);
+      expect(track.stop).toHaveBeenCalledTimes(1);
+      expect(transport.connect).not.toHaveBeenCalled();
+    });
+
+    it('ignores messages that arrive after the game ended', async () => {
+      const session = createSession();
+      const transcript = vi.fn();
+      session.on('transcript', transcript);
+      await session.start();
+      const { callbacks } = transport.latest();
+
+      session.end();
+      callbacks.onmessage(message({ serverContent: { outputTranscription: { text: 'Hello' } } }));
+      callbacks.onclose?.(closeEvent());
+      await flush();
+
+      expect(transcript).not.toHaveBeenCalled();
+      expect(transport.connect).toHaveBeenCalledTimes(1);
+    });
+  });
+});
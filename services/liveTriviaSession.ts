@@ -0,0 +1,373 @@
+import { FunctionCall, FunctionResponse, LiveServerMessage } from "@google/genai";
+import { GeneratedQuestion, TriviaConfig } from "../types";
+import { LIVE_INPUT_SAMPLE_RATE, base64ToUint8Array, decodeAudioData } from "./audioUtils";
+import { EventEmitter } from "./eventEmitter";
+import { MicCapture, startMicCapture } from "./micCapture";
+import type { LiveSessionHandle, TriviaProvider } from "./triviaProvider";
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const MAX_RECONNECT_ATTEMPTS = 3;
+const RECONNECT_BASE_DELAY_MS = 500;
+const CONNECT_TIMEOUT_MS = 15000;
+
+export interface LiveTriviaSessionEvents extends Record<string, unknown> {
+  connected: { resumed: boolean };
+  reconnecting: { attempt: number };
+  modelAudio: { buffer: AudioBuffer; startTime: number; playAt: number }; // playAt is on the performance.now() clock
+  micAudio: { samples: Float32Array; sampleRate: number; capturedAt: number };
+  transcript: { role: 'user' | 'model'; text: string; finished: boolean };
+  toolCall: { calls: FunctionCall[] };
+  turnComplete: void;
+  interrupted: void;
+  micUnavailable: { error: unknown }; // The game carries on with typed answers
+  error: { error: unknown }; // Only once reconnecting has failed
+  closed: void;
+}
+
+// Browser services the session depends on, injectable so it can be driven by fakes
+export interface LiveTriviaSessionDeps {
+  connect: TriviaProvider['connectLive'];
+  createAudioContext: (options: AudioContextOptions) => AudioContext;
+  getUserMedia: (constraints: MediaStreamConstraints) => Promise<MediaStream>;
+  startMicCapture: typeof startMicCapture;
+}
+
+export interface LiveTriviaSessionOptions {
+  config: TriviaConfig;
+  questions: GeneratedQuestion[];
+  systemInstruction: string;
+  // Sent as a text turn after reconnecting without a resumption handle, so the host picks up where it left off
+  resumePrompt?: () => string;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const defaultAudioContext = (options: AudioContextOptions): AudioContext =>
+  new (window.AudioContext || (window as any).webkitAudioContext)(options);
+
+// Owns the audio graph and Live API connection for one game; the UI only listens to its events
+export class LiveTriviaSession extends EventEmitter<LiveTriviaSessionEvents> {
+  private inputCtx: AudioContext | null = null;
+  private outputCtx: AudioContext | null = null;
+  private stream: MediaStream | null = null;
+  private micSource: MediaStreamAudioSourceNode | null = null;
+  private capture: MicCapture | null = null;
+  private session: LiveSessionHandle | null = null;
+  private sessionPromise: Promise<LiveSessionHandle> | null = null;
+  private open = false;
+  private generation = 0; // Bumped per connection so callbacks from a dropped one are ignored
+  private resumptionHandle: string | null = null;
+  private reconnecting = false;
+  private sources = new Set<AudioBufferSourceNode>();
+  private nextStartTime = 0;
+  private ended = false;
+
+  inputAnalyser: AnalyserNode | null = null;
+  outputAnalyser: AnalyserNode | null = null;
+
+  constructor(private options: LiveTriviaSessionOptions, private deps: LiveTriviaSessionDeps) {
+    super();
+  }
+
+  // Opens the microphone (unless playing by text) and connects to the host; rejects if connecting fails
+  async start(): Promise<void> {
+    // Browsers may ignore a requested input rate, so capture at the device rate and resample ourselves
+    const inputCtx = this.deps.createAudioContext({});
+    const outputCtx = this.deps.createAudioContext({ sampleRate: OUTPUT_SAMPLE_RATE });
+    this.inputCtx = inputCtx;
+    this.outputCtx = outputCtx;
+
+    this.inputAnalyser = inputCtx.createAnalyser();
+    this.inputAnalyser.fftSize = 256;
+
+    // Sources -> outputAnalyser -> destination
+    this.outputAnalyser = outputCtx.createAnalyser();
+    this.outputAnalyser.fftSize = 256;
+    this.outputAnalyser.connect(outputCtx.destination);
+
+    if (this.options.config.inputMode !== 'text') {
+      try {
+        await this.startMic(inputCtx, this.inputAnalyser);
+      } catch (error) {
+        // Without a mic the player can still type, so fall back instead of failing the game
+        console.warn("Microphone unavailable, continuing with typed answers", error);
+        this.stopMic();
+        this.emit('micUnavailable', { error });
+      }
+    }
+
+    // Ended while the permission prompt was open; don't connect a game nobody is playing
+    if (this.ended) return;
+    await this.connect();
+  }
+
+  private async startMic(inputCtx: AudioContext, inputAnalyser: AnalyserNode) {
+    const stream = await this.deps.getUserMedia({ audio: true });
+    this.stream = stream;
+    // end() already ran, so nothing else will release the mic
+    if (this.ended) {
+      this.stopMic();
+      return;
+    }
+
+    const source = inputCtx.createMediaStreamSource(stream);
+    source.connect(inputAnalyser); // For viz
+
+    this.micSource = source;
+
+    this.capture = await this.deps.startMicCapture(inputCtx, source, (pcmBlob, samples) => {
+      // The chunk ends now, so it started one chunk-length ago
+      const capturedAt = performance.now() - (samples.length / LIVE_INPUT_SAMPLE_RATE) * 1000;
+      this.emit('micAudio', { samples, sampleRate: LIVE_INPUT_SAMPLE_RATE, capturedAt });
+      if (!this.open || !this.sessionPromise) return;
+      this.sessionPromise.then((session) => {
+        session.sendRealtimeInput({ media: pcmBlob });
+      });
+    });
+    if (this.ended) this.stopMic();
+  }
+
+  private stopMic() {
+    this.capture?.stop();
+    this.capture = null;
+    this.micSource?.disconnect();
+    this.micSource = null;
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+  }
+
+  // Opens a Live connection, resuming the previous one when the server gave us a handle.
+  // Rejects if the socket errors or closes before opening, or doesn't open in time
+  private async connect(): Promise<void> {
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation && !this.ended;
+    const resumed = this.resumptionHandle !== null;
+
+    // The SDK's connect only settles once the socket opens, so a failed open has to reject from the callbacks
+    let pending = true;
+    let opened = false;
+    let failOpen: (reason: unknown) => void = () => {};
+    const openFailed = new Promise<never>((_, reject) => { failOpen = reject; });
+    const handleFailure = (reason: unknown) => {
+      if (pending && !opened) failOpen(reason);
+      else if (isCurrent()) this.handleDrop(reason);
+    };
+
+    const sessionPromise = this.deps.connect({
+      config: this.options.config,
+      questions: this.options.questions,
+      systemInstruction: this.options.systemInstruction,
+      resumptionHandle: this.resumptionHandle ?? undefined,
+      callbacks: {
+        onopen: () => {
+          opened = true;
+          if (!isCurrent()) return;
+          // Start forwarding mic audio
+          this.open = true;
+          this.emit('connected', { resumed });
+        },
+        onmessage: (message: LiveServerMessage) => {
+          if (isCurrent()) this.handleMessage(message);
+        },
+        onclose: () => handleFailure(new Error("Live connection closed")),
+        onerror: (error) => {
+          console.error("Live connection error", error);
+          handleFailure(error);
+        },
+      },
+    });
+    this.sessionPromise = sessionPromise;
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timeout = setTimeout(() => reject(new Error("Live connection timed out")), CONNECT_TIMEOUT_MS);
+    });
+
+    let session: LiveSessionHandle;
+    try {
+      session = await Promise.race([sessionPromise, openFailed, timedOut]);
+    } catch (e) {
+      // Abandon the attempt: ignore its callbacks and close the session if it turns up late
+      if (generation === this.generation) this.generation++;
+      sessionPromise.then(late => { try { late.close(); } catch (e) {} }, () => {});
+      // Ending the game while it connected isn't a failure
+      if (this.ended) return;
+      throw e;
+    } finally {
+      pending = false;
+      clearTimeout(timeout);
+    }
+
+    if (!isCurrent()) {
+      // Ended or superseded while connecting
+      try { session.close(); } catch (e) {}
+      return;
+    }
+    this.session = session;
+  }
+
+  // Tries to restore a dropped connection before giving up on the game
+  private async handleDrop(reason: unknown) {
+    if (this.ended || this.reconnecting) return;
+    this.reconnecting = true;
+    this.open = false;
+    this.session = null;
+
+    for (let attempt = 1; attempt <= MAX_RECONNECT_ATTEMPTS; attempt++) {
+      this.emit('reconnecting', { attempt });
+      await delay(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1));
+      if (this.ended) return;
+
+      const hadHandle = this.resumptionHandle !== null;
+      try {
+        await this.connect();
+        this.reconnecting = false;
+        const resumePrompt = this.options.resumePrompt?.();
+        if (!hadHandle && resumePrompt) {
+          this.sendText(resumePrompt);
+        }
+        return;
+      } catch (e) {
+        console.warn(`Reconnect attempt ${attempt} failed`, e);
+        reason = e;
+        // A stale handle can make resumption fail; fall back to a fresh session
+        this.resumptionHandle = null;
+      }
+    }
+
+    this.reconnecting = false;
+    this.emit('error', { error: reason });
+    this.end();
+  }
+
+  // Sends a text turn to the host, e.g. a control message from the UI
+  sendText(text: string): void {
+    this.session?.sendClientContent({ turns: text, turnComplete: true });
+  }
+
+  sendToolResponses(functionResponses: FunctionResponse[]): void {
+    this.session?.sendToolResponse({ functionResponses });
+  }
+
+  // Milliseconds until the host's queued audio finishes playing
+  remainingPlaybackMs(): number {
+    if (!this.outputCtx) return 0;
+    return Math.max(0, this.nextStartTime - this.outputCtx.currentTime) * 1000;
+  }
+
+  // Tears down the connection and every audio node, context and track; safe to call more than once
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.open = false;
+
+    try { this.session?.close(); } catch (e) {}
+    this.session = null;
+    this.sessionPromise = null;
+
+    this.stopMic();
+    this.stopPlayback();
+    this.inputAnalyser?.disconnect();
+    this.outputAnalyser?.disconnect();
+    this.inputCtx?.close().catch(() => {});
+    this.outputCtx?.close().catch(() => {});
+    this.inputCtx = null;
+    this.outputCtx = null;
+
+    this.emit('closed', undefined);
+  }
+
+  private async handleMessage(message: LiveServerMessage) {
+    const content = message.serverContent;
+
+    if (message.sessionResumptionUpdate) {
+      const { resumable, newHandle } = message.sessionResumptionUpdate;
+      if (resumable && newHandle) this.resumptionHandle = newHandle;
+    }
+
+    // The server is about to drop us; reconnect now rather than wait for the close
+    if (message.goAway) {
+      try { this.session?.close(); } catch (e) {}
+      this.generation++;
+      this.handleDrop("Server requested disconnect");
+      return;
+    }
+
+    if (message.toolCall?.functionCalls?.length) {
+      this.emit('toolCall', { calls: message.toolCall.functionCalls });
+    }
+
+    if (content?.inputTranscription) {
+      const { text = '', finished = false } = content.inputTranscription;
+      this.emit('transcript', { role: 'user', text, finished });
+    }
+    if (content?.outputTranscription) {
+      const { text = '', finished = false } = content.outputTranscription;
+      this.emit('transcript', { role: 'model', text, finished });
+    }
+    // Text-only replies arrive as text parts instead of transcribed audio
+    if (this.options.config.textReplies) {
+      const text = (content?.modelTurn?.parts ?? []).filter(p => p.text && !p.thought).map(p => p.text).join('');
+      if (text) this.emit('transcript', { role: 'model', text, finished: false });
+    }
+
+    const base64Audio = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (base64Audio && this.outputCtx && this.outputAnalyser) {
+      await this.playAudio(base64Audio, this.outputCtx, this.outputAnalyser);
+    }
+
+    if (content?.interrupted) {
+      this.stopPlayback();
+      this.emit('interrupted', undefined);
+    }
+
+    if (content?.turnComplete) {
+      this.emit('turnComplete', undefined);
+    }
+  }
+
+  private async playAudio(base64Audio: string, outputCtx: AudioContext, outputAnalyser: AnalyserNode) {
+    this.nextStartTime = Math.max(this.nextStartTime, outputCtx.currentTime);
+
+    const audioBuffer = await decodeAudioData(
+      base64ToUint8Array(base64Audio),
+      outputCtx,
+      OUTPUT_SAMPLE_RATE,
+      1
+    );
+
+    const sourceNode = outputCtx.createBufferSource();
+    sourceNode.buffer = audioBuffer;
+    sourceNode.connect(outputAnalyser);
+
+    const startTime = this.nextStartTime;
+    sourceNode.start(startTime);
+    this.nextStartTime += audioBuffer.duration;
+
+    this.sources.add(sourceNode);
+    sourceNode.onended = () => this.sources.delete(sourceNode);
+    const playAt = performance.now() + (startTime - outputCtx.currentTime) * 1000;
+    this.emit('modelAudio', { buffer: audioBuffer, startTime, playAt });
+  }
+
+  private stopPlayback() {
+    this.sources.forEach(s => {
+      try { s.stop(); } catch (e) {}
+    });
+    this.sources.clear();
+    this.nextStartTime = 0;
+  }
+}
+
+export const createLiveTriviaSession = (
+  options: LiveTriviaSessionOptions,
+  provider: TriviaProvider,
+  deps: Partial<LiveTriviaSessionDeps> = {},
+): LiveTriviaSession =>
+  new LiveTriviaSession(options, {
+    connect: (connectOptions) => provider.connectLive(connectOptions),
+    createAudioContext: defaultAudioContext,
+    getUserMedia: (constraints) => navigator.mediaDevices.getUserMedia(constraints),
+    startMicCapture,
+    ...deps,
+  });
@@ -0,0 +1,113 @@
+import { Blob } from "@google/genai";
+import { LIVE_INPUT_SAMPLE_RATE, createPcmBlob, createResampler } from "./audioUtils";
+
+// Size of each chunk sent to the Live API; small chunks keep turn-taking latency low
+const CHUNK_DURATION_MS = 40;
+const FALLBACK_BUFFER_SIZE = 2048;
+
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+// Runs on the audio thread: batches 128-frame render quanta into fixed-size chunks and posts them out.
+// Inlined and loaded from a Blob URL so it needs no separate build step.
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.batchSize = options.processorOptions.batchSize;
+    this.buffer = new Float32Array(this.batchSize);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.batchSize - this.filled);
+      this.buffer.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.batchSize) {
+        this.port.postMessage(this.buffer);
+        this.buffer = new Float32Array(this.batchSize);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export interface MicCapture {
+  kind: 'worklet' | 'script-processor';
+  stop(): void;
+}
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const loadProcessor = async (ctx: AudioContext) => {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new window.Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Pipes the microphone source into 16 kHz PCM chunks, whatever rate the device actually runs at.
+// Prefers an AudioWorklet and falls back to the deprecated ScriptProcessorNode where worklets are unavailable.
+export const startMicCapture = async (
+  ctx: AudioContext,
+  source: AudioNode,
+  onChunk: (blob: Blob, samples: Float32Array) => void, // Samples are the same 16 kHz audio, unencoded
+): Promise<MicCapture> => {
+  const resampler = createResampler(ctx.sampleRate, LIVE_INPUT_SAMPLE_RATE);
+  const emit = (samples: Float32Array) => {
+    const resampled = resampler(samples);
+    if (resampled.length > 0) {
+      onChunk(createPcmBlob(resampled, LIVE_INPUT_SAMPLE_RATE), resampled);
+    }
+  };
+
+  if (ctx.audioWorklet) {
+    try {
+      await loadProcessor(ctx);
+      const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions: { batchSize: Math.round(ctx.sampleRate * CHUNK_DURATION_MS / 1000) },
+      });
+      node.port.onmessage = (event: MessageEvent<Float32Array>) => emit(event.data);
+      source.connect(node);
+      return {
+        kind: 'worklet',
+        stop: () => {
+          node.port.onmessage = null;
+          source.disconnect(node);
+          node.disconnect();
+        },
+      };
+    } catch (e) {
+      console.warn("AudioWorklet capture unavailable, falling back to ScriptProcessorNode", e);
+    }
+  }
+
+  const scriptProcessor = ctx.createScriptProcessor(FALLBACK_BUFFER_SIZE, 1, 1);
+  scriptProcessor.onaudioprocess = (event) => emit(event.inputBuffer.getChannelData(0));
+  source.connect(scriptProcessor);
+  // ScriptProcessorNode only runs while connected to the destination
+  scriptProcessor.connect(ctx.destination);
+  return {
+    kind: 'script-processor',
+    stop: () => {
+      scriptProcessor.onaudioprocess = null;
+      source.disconnect(scriptProcessor);
+      scriptProcessor.disconnect();
+    },
+  };
+};
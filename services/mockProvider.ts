@@ -0,0 +1,332 @@
+import { LiveServerMessage } from "@google/genai";
+import type { FunctionCall, LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters } from "@google/genai";
+import { AnswerVerification, Difficulty, GeneratedQuestion, HostVoice, TopicModeration, TriviaConfig } from "../types";
+import { arrayBufferToBase64, base64ToUint8Array } from "./audioUtils";
+import { ADVANCE_QUESTION, END_GAME, RECORD_ANSWER } from "./triviaTools";
+import { parseControlPrompt, parseTypedAnswerPrompt } from "./prompts";
+import type { GeneratedQuestionSet, LiveConnectOptions, LiveSessionHandle, TriviaProvider } from "./triviaProvider";
+
+// Offline stand-in for Gemini: canned questions, synthesized beeps for speech and a scripted host.
+// Everything is deterministic so the game can be developed, demoed and tested without a network.
+
+interface MockFact {
+  question: string;
+  answer: number;
+  context: string;
+}
+
+// Every answer is a number so each fact works in all four question styles
+const MOCK_FACTS: MockFact[] = [
+  { question: "How many planets are in our solar system?", answer: 8, context: "Pluto was reclassified as a dwarf planet in 2006." },
+  { question: "How many legs does a spider have?", answer: 8, context: "Spiders are arachnids, not insects, which have six legs." },
+  { question: "In what year did humans first land on the Moon?", answer: 1969, context: "Apollo 11 touched down on July 20, 1969." },
+  { question: "How many players does a soccer team have on the field?", answer: 11, context: "That includes the goalkeeper." },
+  { question: "How many bones are in the adult human body?", answer: 206, context: "Babies are born with around 300 bones that fuse over time." },
+  { question: "How many keys does a standard piano have?", answer: 88, context: "52 white keys and 36 black keys." },
+  { question: "How many hearts does an octopus have?", answer: 3, context: "Two pump blood to the gills, one to the rest of the body." },
+  { question: "In what year did the Berlin Wall fall?", answer: 1989, context: "It fell on November 9, 1989." },
+  { question: "How many sides does a hexagon have?", answer: 6, context: "Honeybees build their combs from hexagonal cells." },
+  { question: "How many minutes are in a day?", answer: 1440, context: "24 hours times 60 minutes." },
+];
+
+// Each difficulty starts at a different fact so adaptive games get different questions per tier
+const DIFFICULTY_OFFSET: Record<Difficulty, number> = { easy: 0, medium: 3, hard: 6 };
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const TURN_DELAY_MS = 400;
+const ANSWER_TIMEOUT_MS = 10000;
+const SPEECH_RMS_THRESHOLD = 0.02;
+const SILENT_CHUNKS_TO_END_ANSWER = 4;
+
+const toMockQuestion = (fact: MockFact, index: number, config: TriviaConfig): GeneratedQuestion => {
+  const base = { context: fact.context, type: config.questionType, difficulty: config.difficulty };
+  switch (config.questionType) {
+    case 'multiple_choice': {
+      const options = [fact.answer, fact.answer + 1, fact.answer - 1, fact.answer + 2].map(String);
+      // Rotate so the right answer isn't always first
+      const shift = index % options.length;
+      return { ...base, question: fact.question, answer: String(fact.answer), choices: [...options.slice(shift), ...options.slice(0, shift)] };
+    }
+    case 'true_false': {
+      const isTrue = index % 2 === 0;
+      const shown = isTrue ? fact.answer : fact.answer + 1;
+      return { ...base, question: `True or false: the answer to "${fact.question}" is ${shown}.`, answer: isTrue ? 'True' : 'False' };
+    }
+    default:
+      return { ...base, question: fact.question, answer: String(fact.answer) };
+  }
+};
+
+export const generateQuestions = async (config: TriviaConfig, avoid: string[] = []): Promise<GeneratedQuestionSet> => {
+  const offset = DIFFICULTY_OFFSET[config.difficulty] ?? 0;
+  const facts = MOCK_FACTS.map((_, i) => MOCK_FACTS[(i + offset) % MOCK_FACTS.length]);
+  // Facts that were already used go last, so follow-up batches offer new ones while any are left
+  const used = (fact: MockFact) => avoid.some(q => q.includes(fact.question));
+  const ordered = [...facts.filter(f => !used(f)), ...facts.filter(used)];
+  const questions = Array.from({ length: config.questionCount }, (_, i) =>
+    toMockQuestion(ordered[i % ordered.length], i, config)
+  );
+  return { questions, sources: [] };
+};
+
+// A soft two-tone chirp whose length roughly follows the spoken text
+// Each voice gets its own pitch so voice previews are distinguishable offline
+const VOICE_PITCH: Record<HostVoice, number> = {
+  Kore: 440, Puck: 523, Charon: 330, Fenrir: 392, Aoede: 494, Leda: 587, Orus: 294, Zephyr: 659,
+};
+
+const synthesizeSpeechTone = (text: string, voice: HostVoice): Float32Array => {
+  const seconds = Math.min(4, 0.3 + text.split(/\s+/).length * 0.06);
+  const samples = new Float32Array(Math.floor(seconds * OUTPUT_SAMPLE_RATE));
+  const base = VOICE_PITCH[voice] ?? 440;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / OUTPUT_SAMPLE_RATE;
+    const freq = Math.floor(t * 4) % 2 === 0 ? base : base * 1.26;
+    const envelope = Math.min(1, t * 20, (seconds - t) * 20);
+    samples[i] = 0.2 * envelope * Math.sin(2 * Math.PI * freq * t);
+  }
+  return samples;
+};
+
+const toPcm16Base64 = (samples: Float32Array): string => {
+  const int16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    int16[i] = Math.max(-1, Math.min(1, samples[i])) * 32767;
+  }
+  return arrayBufferToBase64(int16.buffer);
+};
+
+export const generateSummarySpeech = async (text: string, voice: HostVoice): Promise<AudioBuffer | null> => {
+  const samples = synthesizeSpeechTone(text, voice);
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+  const buffer = ctx.createBuffer(1, samples.length, OUTPUT_SAMPLE_RATE);
+  buffer.getChannelData(0).set(samples);
+  ctx.close();
+  return buffer;
+};
+
+// No classifier offline: the local checks in moderateTopics have already run, so anything that reaches here is allowed
+export const moderateTopic = async (): Promise<TopicModeration> =>
+  ({ allowed: true, reason: '' });
+
+// Upholds the key and counts the player's answer only if it contains the expected one
+export const verifyAnswer = async (question: GeneratedQuestion, userAnswer: string): Promise<AnswerVerification> => {
+  const userAnswerCorrect = userAnswer.toLowerCase().includes(question.answer.toLowerCase());
+  return {
+    keyIsCorrect: true,
+    correctAnswer: question.answer,
+    userAnswerCorrect,
+    explanation: userAnswerCorrect
+      ? `The answer "${userAnswer}" matches the key, so it should have counted.`
+      : `The key "${question.answer}" is correct. ${question.context}`,
+    sources: [],
+  };
+};
+
+const message = (fields: Partial<LiveServerMessage>): LiveServerMessage =>
+  Object.assign(new LiveServerMessage(), fields);
+
+const rms = (base64Pcm: string): number => {
+  const bytes = base64ToUint8Array(base64Pcm);
+  const int16 = new Int16Array(bytes.buffer, 0, Math.floor(bytes.byteLength / 2));
+  if (int16.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < int16.length; i++) {
+    const v = int16[i] / 32768;
+    sum += v * v;
+  }
+  return Math.sqrt(sum / int16.length);
+};
+
+const contentText = (turns: LiveSendClientContentParameters['turns']): string => {
+  const list = Array.isArray(turns) ? turns : turns ? [turns] : [];
+  return list.map(turn => {
+    if (typeof turn === 'string') return turn;
+    if ('parts' in turn) return turn.parts?.map(p => p.text || '').join(' ') ?? '';
+    return 'text' in turn ? turn.text || '' : '';
+  }).join(' ');
+};
+
+// Scripted host: asks each question, "hears" an answer from mic energy or a text turn, then moves on
+class MockLiveSession implements LiveSessionHandle {
+  private questionIndex = -1;
+  private awaitingAnswer = false;
+  private heardSpeech = false;
+  private silentChunks = 0;
+  private closed = false;
+  private callId = 0;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private answerTimer: ReturnType<typeof setTimeout> | null = null;
+  private questions: GeneratedQuestion[];
+
+  constructor(private options: LiveConnectOptions) {
+    this.questions = [...options.questions];
+  }
+
+  start() {
+    this.after(0, () => {
+      this.options.callbacks.onopen?.();
+      const { config } = this.options;
+      const count = config.endless ? 'endless' : config.adaptive ? config.questionCount : this.questions.length;
+      this.speak(`Welcome to the offline demo of TrivAI Live! We have ${count} questions about ${config.topic}.`);
+      this.askNext();
+    });
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    const data = params.audio?.data ?? (params.media && 'data' in params.media ? params.media.data : undefined);
+    if (!this.awaitingAnswer || !data) return;
+    if (rms(data) > SPEECH_RMS_THRESHOLD) {
+      this.heardSpeech = true;
+      this.silentChunks = 0;
+    } else if (this.heardSpeech && ++this.silentChunks >= SILENT_CHUNKS_TO_END_ANSWER) {
+      this.answer(null);
+    }
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    const text = contentText(params.turns).trim();
+    if (!this.awaitingAnswer || !text) return;
+
+    const control = parseControlPrompt(text);
+    const q = this.questions[this.questionIndex];
+    if (control === 'hint') {
+      this.speak(`Here's a hint: the answer starts with "${q.answer.charAt(0)}".`);
+    } else if (control === 'repeat') {
+      this.speak(`Once more. ${q.question}`);
+    } else if (control) {
+      this.answer(null, control === 'skip' ? '(skipped)' : '(time ran out)');
+    } else {
+      this.answer(parseTypedAnswerPrompt(text) ?? text);
+    }
+  }
+
+  // Adaptive games hand over each next question in the recordAnswer result; nothing else affects the script
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    const responses = Array.isArray(params.functionResponses) ? params.functionResponses : params.functionResponses ? [params.functionResponses] : [];
+    for (const response of responses) {
+      const next = (response.response?.output as { nextQuestion?: GeneratedQuestion & { questionIndex: number } } | undefined)?.nextQuestion;
+      if (next && next.questionIndex === this.questions.length) {
+        const { questionIndex, ...question } = next;
+        this.questions.push(question);
+      }
+    }
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.timers.forEach(clearTimeout);
+    this.timers.clear();
+    this.options.callbacks.onclose?.(new CloseEvent('close'));
+  }
+
+  private after(ms: number, fn: () => void) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      if (!this.closed) fn();
+    }, ms);
+    this.timers.add(timer);
+    return timer;
+  }
+
+  private emit(fields: Partial<LiveServerMessage>) {
+    this.options.callbacks.onmessage(message(fields));
+  }
+
+  private callTool(name: string, args: Record<string, unknown>) {
+    const call: FunctionCall = { id: `mock-${++this.callId}`, name, args };
+    this.emit({ toolCall: { functionCalls: [call] } });
+  }
+
+  private speak(text: string) {
+    if (this.options.config.textReplies) {
+      this.emit({ serverContent: { modelTurn: { parts: [{ text }] } } });
+      this.emit({ serverContent: { turnComplete: true } });
+      return;
+    }
+    this.emit({ serverContent: { outputTranscription: { text } } });
+    this.emit({
+      serverContent: {
+        modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data: toPcm16Base64(synthesizeSpeechTone(text, this.options.config.personality.voice)) } }] },
+      },
+    });
+    this.emit({ serverContent: { turnComplete: true } });
+  }
+
+  private askNext() {
+    this.questionIndex++;
+    const { config } = this.options;
+    const questions = this.questions;
+    if (this.questionIndex >= questions.length) {
+      this.after(TURN_DELAY_MS, () => {
+        this.speak("That was the last question. Thanks for playing the demo. GAME OVER!");
+        this.callTool(END_GAME, {});
+      });
+      return;
+    }
+
+    this.after(TURN_DELAY_MS, () => {
+      const q = questions[this.questionIndex];
+      this.callTool(ADVANCE_QUESTION, { questionIndex: this.questionIndex });
+      const player = config.players.length > 1 ? `${config.players[this.questionIndex % config.players.length]}, ` : '';
+      const choices = q.choices?.length ? ` Is it ${q.choices.join(', ')}?` : '';
+      const newRound = config.rounds && q.round !== undefined && q.round !== questions[this.questionIndex - 1]?.round;
+      const round = newRound ? `Round ${q.round! + 1}: ${config.rounds![q.round!]}! ` : '';
+      this.speak(`${round}Question ${this.questionIndex + 1}. ${player}${q.question}${choices}`);
+      this.awaitingAnswer = true;
+      this.heardSpeech = false;
+      this.silentChunks = 0;
+      this.answerTimer = this.after(ANSWER_TIMEOUT_MS, () => this.answer(null));
+    });
+  }
+
+  // Typed answers are checked against the key; spoken ones alternate so both outcomes get exercised
+  private answer(text: string | null, forfeit?: string) {
+    if (!this.awaitingAnswer) return;
+    this.awaitingAnswer = false;
+    if (this.answerTimer) {
+      clearTimeout(this.answerTimer);
+      this.timers.delete(this.answerTimer);
+      this.answerTimer = null;
+    }
+
+    const { config } = this.options;
+    const q = this.questions[this.questionIndex];
+    const correct = forfeit ? false : text !== null
+      ? text.toLowerCase().includes(q.answer.toLowerCase())
+      : this.questionIndex % 2 === 0;
+    const args: Record<string, unknown> = {
+      questionIndex: this.questionIndex,
+      userAnswer: forfeit ?? text ?? (this.heardSpeech ? '(spoken answer)' : '(no answer)'),
+      verdict: correct ? 'correct' : 'incorrect',
+    };
+    if (config.players.length > 1) {
+      args.playerName = config.players[this.questionIndex % config.players.length];
+    }
+
+    if (text !== null) {
+      this.emit({ serverContent: { inputTranscription: { text, finished: true } } });
+    }
+    this.callTool(RECORD_ANSWER, args);
+    this.after(TURN_DELAY_MS, () => {
+      this.speak(correct ? `Correct! ${q.context}` : `Not quite, the answer was ${q.answer}. ${q.context}`);
+      this.askNext();
+    });
+  }
+}
+
+export const connectLiveSession = async (options: LiveConnectOptions): Promise<LiveSessionHandle> => {
+  const session = new MockLiveSession(options);
+  session.start();
+  return session;
+};
+
+export const mockProvider: TriviaProvider = {
+  name: 'mock',
+  moderateTopic,
+  generateQuestions,
+  generateSummarySpeech,
+  verifyAnswer,
+  connectLive: connectLiveSession,
+};
@@ -0,0 +1,51 @@
+import { GeneratedQuestion, TopicModeration, TriviaConfig } from "../types";
+import { TopicRejectedError } from "./errors";
+import { LocalizedMessage, localize, t, uiLanguage } from "./i18n";
+import type { TriviaProvider } from "./triviaProvider";
+
+const MAX_TOPIC_LENGTH = 120;
+
+// Markup that only ever appears in an attempt to fake the game's own prompt structure. Everything fuzzier
+// ("ignore the rules", "naked mole-rats") is left to the provider's classifier, which can tell a subject from an instruction
+const CONTROL_MARKUP_PATTERNS = [
+  /<\/?\s*(system|topic|round|player|typed_answer|question|option|answer|fact|instructions?)\s*>/i,
+  /\[\s*game control\s*:/i,
+];
+
+export const containsControlMarkup = (text: string): boolean => CONTROL_MARKUP_PATTERNS.some(p => p.test(text));
+
+// Objection to a topic that needs no model call to spot, or null
+export const checkTopicLocally = (topic: string): LocalizedMessage | null => {
+  if (!topic.trim()) return { key: 'topicEmpty' };
+  if (topic.length > MAX_TOPIC_LENGTH) return { key: 'topicTooLong', params: { max: MAX_TOPIC_LENGTH } };
+  if (containsControlMarkup(topic)) return { key: 'topicMarkup' };
+  return null;
+};
+
+// What's wrong with a question's content, phrased to follow "Question N", or null
+export const screenQuestion = (question: GeneratedQuestion): string | null => {
+  const text = [question.question, question.answer, question.context, ...(question.choices ?? [])].join('\n');
+  return containsControlMarkup(text) ? 'contains game control markup' : null;
+};
+
+// Every topic the game will generate questions for: one per round, or the single topic
+const gameTopics = (config: TriviaConfig): string[] =>
+  config.rounds && config.rounds.length > 0 ? config.rounds : [config.topic];
+
+// Runs before any generation: the local checks first, then the provider's classifier on whatever passed them.
+// Rejections are worded in the player's interface language
+export const moderateTopics = async (config: TriviaConfig, provider: TriviaProvider): Promise<void> => {
+  const lang = uiLanguage(config);
+  const topics = gameTopics(config);
+  const rejection = (topic: string, reason: string) =>
+    new TopicRejectedError(`${t(lang, 'topicRejected', { topic: topic.trim() })} ${reason}`.trim(), topic);
+
+  for (const topic of topics) {
+    const problem = checkTopicLocally(topic);
+    if (problem) throw rejection(topic, localize(lang, problem));
+  }
+
+  const verdicts: TopicModeration[] = await Promise.all(topics.map(topic => provider.moderateTopic(topic, !!config.familyFriendly, lang)));
+  const rejected = verdicts.findIndex(v => !v.allowed);
+  if (rejected >= 0) throw rejection(topics[rejected], verdicts[rejected].reason);
+};
@@ -0,0 +1,122 @@
+import { HostPersonality, HostVoice } from "../types";
+import { LANGUAGES, LocalizedMessage, MessageKey } from "./i18n";
+
+const STORAGE_KEY = 'trivai-live:personalities';
+
+export const HOST_VOICES: { id: HostVoice; desc: MessageKey }[] = [
+  { id: 'Kore', desc: 'voiceFirm' },
+  { id: 'Puck', desc: 'voiceUpbeat' },
+  { id: 'Charon', desc: 'voiceInformative' },
+  { id: 'Fenrir', desc: 'voiceExcitable' },
+  { id: 'Aoede', desc: 'voiceBreezy' },
+  { id: 'Leda', desc: 'voiceYouthful' },
+  { id: 'Orus', desc: 'voiceFirmDeeper' },
+  { id: 'Zephyr', desc: 'voiceBright' },
+];
+
+export const BUILT_IN_PERSONALITIES: HostPersonality[] = [
+  {
+    id: 'enthusiastic',
+    name: 'Enthusiastic Host',
+    description: 'High energy, super encouraging!',
+    prompt: 'You are a high-energy game show host. Celebrate every right answer and cheer the player on after wrong ones.',
+    catchphrases: ["Let's gooo!", 'You are on fire!'],
+    language: 'en',
+    voice: 'Puck',
+    builtIn: true,
+  },
+  {
+    id: 'sarcastic',
+    name: 'Sarcastic Robot',
+    description: 'Dry wit, mild roasting included.',
+    prompt: 'You are a deadpan robot who finds humans mildly amusing. Roast wrong answers gently, never cruelly.',
+    catchphrases: ['Processing... unimpressed.', 'Beep boop, correct. Shocking.'],
+    language: 'en',
+    voice: 'Charon',
+    builtIn: true,
+  },
+  {
+    id: 'dramatic',
+    name: 'Dramatic Narrator',
+    description: 'Treats every question like a movie trailer.',
+    prompt: 'You narrate the game like an epic movie trailer, building suspense before every verdict.',
+    catchphrases: ['In a world...', 'The tension is unbearable.'],
+    language: 'en',
+    voice: 'Fenrir',
+    builtIn: true,
+  },
+  {
+    id: 'professor',
+    name: 'Strict Professor',
+    description: 'Demands precision, offers detailed facts.',
+    prompt: 'You are an exacting university professor. Insist on precise answers and add a short lecture-style fact after each one.',
+    catchphrases: ['Precisely.', 'That will be on the exam.'],
+    language: 'en',
+    voice: 'Kore',
+    builtIn: true,
+  },
+];
+
+export const createPersonalityId = (): string => `custom-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const emptyPersonality = (): HostPersonality => ({
+  id: createPersonalityId(),
+  name: '',
+  description: '',
+  prompt: '',
+  catchphrases: [],
+  language: 'en',
+  voice: 'Kore',
+});
+
+// Returns the problems that stop a personality from being saved, empty when it's fine
+export const validatePersonality = (p: HostPersonality): LocalizedMessage[] => {
+  const problems: LocalizedMessage[] = [];
+  if (!p.name.trim()) problems.push({ key: 'hostNeedsName' });
+  if (!p.prompt.trim()) problems.push({ key: 'hostNeedsPrompt' });
+  if (!LANGUAGES.some(l => l.code === p.language)) problems.push({ key: 'hostNeedsLanguage' });
+  if (!HOST_VOICES.some(v => v.id === p.voice)) problems.push({ key: 'hostUnknownVoice', params: { voice: p.voice } });
+  return problems;
+};
+
+// Shape and content check for personalities read from storage or a shared link
+export const isHostPersonality = (value: unknown): value is HostPersonality => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const p = value as Record<string, unknown>;
+  return typeof p.id === 'string' && typeof p.name === 'string' && typeof p.description === 'string' &&
+    typeof p.prompt === 'string' && typeof p.language === 'string' && typeof p.voice === 'string' &&
+    Array.isArray(p.catchphrases) && p.catchphrases.every(c => typeof c === 'string') &&
+    validatePersonality(value as HostPersonality).length === 0;
+};
+
+export const loadCustomPersonalities = (): HostPersonality[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const data = raw ? JSON.parse(raw) : [];
+    return Array.isArray(data) ? data.filter(isHostPersonality) : [];
+  } catch (e) {
+    console.error("Failed to load custom personalities", e);
+    return [];
+  }
+};
+
+const storeCustomPersonalities = (personalities: HostPersonality[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(personalities));
+};
+
+// Adds or replaces (by id) a custom personality and returns the updated list
+export const saveCustomPersonality = (personality: HostPersonality): HostPersonality[] => {
+  const saved = { ...personality, builtIn: false };
+  const existing = loadCustomPersonalities();
+  const updated = existing.some(p => p.id === saved.id)
+    ? existing.map(p => (p.id === saved.id ? saved : p))
+    : [...existing, saved];
+  storeCustomPersonalities(updated);
+  return updated;
+};
+
+export const deleteCustomPersonality = (id: string): HostPersonality[] => {
+  const updated = loadCustomPersonalities().filter(p => p.id !== id);
+  storeCustomPersonalities(updated);
+  return updated;
+};
@@ -0,0 +1,18 @@
+import { AnswerRecord, GeneratedQuestion, GroundingSource, TriviaConfig } from "../types";
+
+// Supplies questions one at a time during the game instead of a fixed set baked into the host instruction
+export interface QuestionFeed {
+  readonly sources: GroundingSource[];
+  // The question to ask after `asked`, or null when the feed has run dry
+  next(asked: GeneratedQuestion[], answers: AnswerRecord[]): Promise<GeneratedQuestion | null>;
+  // Stops any further background generation once the game is over
+  close(): void;
+}
+
+// Games whose host only knows the current question and gets each next one from the app
+export const usesQuestionFeed = (config: Pick<TriviaConfig, 'adaptive' | 'endless'>): boolean =>
+  !!(config.adaptive || config.endless);
+
+// Loose identity for spotting a repeated question
+export const questionKey = (question: GeneratedQuestion): string =>
+  question.question.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
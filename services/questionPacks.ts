@@ -0,0 +1,171 @@
+import { GeneratedQuestion, GroundingSource, QUESTION_PACK_FORMAT, QuestionPack } from "../types";
+import { PackImportError } from "./errors";
+import { LocalizedMessage } from "./i18n";
+import { validateQuestions } from "./questionValidation";
+
+const CSV_COLUMNS = ['question', 'answer', 'context', 'type', 'difficulty', 'choices'] as const;
+const CHOICE_SEPARATOR = '|';
+
+export const createPack = (fields: Partial<QuestionPack> = {}): QuestionPack => ({
+  format: QUESTION_PACK_FORMAT,
+  version: 1,
+  title: 'Untitled Pack',
+  topic: '',
+  createdAt: Date.now(),
+  questions: [],
+  ...fields,
+});
+
+export const emptyQuestion = (): GeneratedQuestion => ({
+  question: '',
+  answer: '',
+  context: '',
+  type: 'open',
+  difficulty: 'medium',
+});
+
+// Runs imported questions through the same checks as generated ones
+const checkedQuestions = (data: unknown): GeneratedQuestion[] => {
+  const { questions, problems } = validateQuestions(data, {
+    questionType: 'open',
+    difficulty: 'medium',
+    allowMixedFormats: true,
+  });
+  if (problems.length > 0) {
+    throw new PackImportError({ key: 'packInvalidQuestions' }, problems);
+  }
+  return questions;
+};
+
+const readSources = (value: unknown): GroundingSource[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  return value.filter((s): s is GroundingSource =>
+    typeof s === 'object' && s !== null && typeof s.id === 'string' && typeof s.uri === 'string' && typeof s.title === 'string'
+  );
+};
+
+export const parsePackJson = (text: string): QuestionPack => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new PackImportError({ key: 'packNotJson' });
+  }
+
+  // A bare array of questions is accepted too
+  if (Array.isArray(data)) {
+    return createPack({ questions: checkedQuestions(data) });
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw new PackImportError({ key: 'packNotPack' });
+  }
+
+  const record = data as Record<string, unknown>;
+  if (record.format !== undefined && record.format !== QUESTION_PACK_FORMAT) {
+    throw new PackImportError({ key: 'packUnknownFormat', params: { format: String(record.format) } });
+  }
+  const trimmed = (value: unknown) => typeof value === 'string' ? value.trim() : undefined;
+
+  return createPack({
+    title: trimmed(record.title) || 'Imported Pack',
+    topic: trimmed(record.topic) || trimmed(record.title) || '',
+    description: trimmed(record.description),
+    author: trimmed(record.author),
+    createdAt: typeof record.createdAt === 'number' ? record.createdAt : Date.now(),
+    questions: checkedQuestions(record.questions),
+    sources: readSources(record.sources),
+  });
+};
+
+// RFC 4180-style parsing: quoted fields may contain commas, newlines and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Expects a header row naming at least question, answer and context; choices are "|"-separated
+export const parsePackCsv = (text: string, title: string): QuestionPack => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new PackImportError({ key: 'csvEmpty' });
+  }
+
+  const columns = header.map(h => h.trim().toLowerCase());
+  const missing = ['question', 'answer', 'context'].filter(c => !columns.includes(c));
+  if (missing.length > 0) {
+    throw new PackImportError({ key: 'csvMissingColumns', params: { columns: missing.join(', ') } });
+  }
+
+  const items = rows.map(cells => {
+    const item: Record<string, unknown> = {};
+    CSV_COLUMNS.forEach(column => {
+      const index = columns.indexOf(column);
+      const value = index >= 0 ? (cells[index] ?? '').trim() : '';
+      if (column === 'choices') {
+        if (value) item.choices = value.split(CHOICE_SEPARATOR).map(c => c.trim());
+      } else if (value || ['question', 'answer', 'context'].includes(column)) {
+        item[column] = value;
+      }
+    });
+    return item;
+  });
+
+  return createPack({ title, topic: title, questions: checkedQuestions(items) });
+};
+
+// Picks the parser from the file extension
+export const importPackFile = async (file: File): Promise<QuestionPack> => {
+  const text = await file.text();
+  if (/\.csv$/i.test(file.name)) {
+    return parsePackCsv(text, file.name.replace(/\.csv$/i, ''));
+  }
+  return parsePackJson(text);
+};
+
+// Problems that would stop a pack from being played; empty when it's good to go
+export const validatePack = (pack: QuestionPack): LocalizedMessage[] => {
+  const problems: LocalizedMessage[] = [];
+  if (!pack.title.trim()) problems.push({ key: 'packNeedsTitle' });
+  if (!pack.topic.trim()) problems.push({ key: 'packNeedsTopic' });
+  return [...problems, ...validateQuestions(pack.questions, {
+    questionType: 'open',
+    difficulty: 'medium',
+    allowMixedFormats: true,
+  }).problems];
+};
+
+export const serializePack = (pack: QuestionPack): string => JSON.stringify(pack, null, 2);
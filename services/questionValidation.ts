@@ -0,0 +1,142 @@
+import { Difficulty, GeneratedQuestion, QuestionCitations, QuestionType } from "../types";
+import { LocalizedMessage, MessageKey, localize } from "./i18n";
+
+export interface QuestionValidationResult {
+  questions: GeneratedQuestion[];
+  problems: LocalizedMessage[]; // For showing to players
+  errors: string[]; // The same problems in English, for the model's repair turn
+}
+
+const REQUIRED_FIELDS = ['question', 'answer', 'context'] as const;
+
+const QUESTION_TYPES: QuestionType[] = ['open', 'multiple_choice', 'true_false', 'numeric'];
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export interface QuestionFormat {
+  questionCount?: number; // Omit to accept any non-empty set
+  questionType: QuestionType;
+  difficulty: Difficulty;
+  allowMixedFormats?: boolean; // Keep a valid per-question "type"/"difficulty" instead of forcing the defaults
+}
+
+// Pulls the JSON payload out of a model response, preferring a ```json fenced block
+export const extractJson = (text: string): unknown => {
+  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const candidate = jsonMatch && jsonMatch[1] ? jsonMatch[1] : text;
+  return JSON.parse(candidate.trim());
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+// Citations survive a pack round-trip only if they are well formed
+const readCitations = (value: unknown): QuestionCitations | undefined => {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { answer, context } = value as Record<string, unknown>;
+  return isStringArray(answer) && isStringArray(context) ? { answer, context } : undefined;
+};
+
+// Format-specific checks; returns the problem with the question, if any
+const checkQuestionType = (question: GeneratedQuestion, choices: unknown): MessageKey | null => {
+  switch (question.type) {
+    case 'multiple_choice': {
+      if (!Array.isArray(choices) || choices.length < 3 || choices.length > 4) {
+        return 'invalidChoiceCount';
+      }
+      if (choices.some(c => typeof c !== 'string' || c.trim() === '')) {
+        return 'invalidEmptyChoice';
+      }
+      if (!choices.some(c => normalize(c) === normalize(question.answer))) {
+        return 'invalidAnswerNotChoice';
+      }
+      return null;
+    }
+    case 'true_false':
+      return /^(true|false)$/i.test(question.answer) ? null : 'invalidTrueFalse';
+    case 'numeric':
+      return Number.isFinite(Number(question.answer.replace(/,/g, ''))) ? null : 'invalidNumeric';
+    default:
+      return null;
+  }
+};
+
+// Checks a parsed payload against the GeneratedQuestion[] shape; returns every problem found
+export const validateQuestions = (data: unknown, format: QuestionFormat): QuestionValidationResult => {
+  const problems: LocalizedMessage[] = [];
+  const result = (questions: GeneratedQuestion[]): QuestionValidationResult =>
+    ({ questions, problems, errors: problems.map(p => localize('en', p)) });
+  const expectedCount = format.questionCount;
+
+  if (!Array.isArray(data)) {
+    problems.push({ key: 'invalidNotArray' });
+    return result([]);
+  }
+
+  if (expectedCount !== undefined && data.length !== expectedCount) {
+    problems.push({ key: 'invalidCount', params: { expected: expectedCount, actual: data.length } });
+  } else if (data.length === 0) {
+    problems.push({ key: 'invalidEmpty' });
+  }
+
+  const questions: GeneratedQuestion[] = [];
+  const seen = new Map<string, number>();
+
+  data.forEach((item, i) => {
+    const number = i + 1;
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      problems.push({ key: 'invalidNotObject', params: { number } });
+      return;
+    }
+    const record = item as Record<string, unknown>;
+    let valid = true;
+    for (const field of REQUIRED_FIELDS) {
+      const value = record[field];
+      if (typeof value !== 'string') {
+        problems.push({ key: 'invalidMissingField', params: { number, field } });
+        valid = false;
+      } else if (value.trim() === '') {
+        problems.push({ key: 'invalidEmptyField', params: { number, field } });
+        valid = false;
+      }
+    }
+    if (!valid) return;
+
+    const question: GeneratedQuestion = {
+      question: (record.question as string).trim(),
+      answer: (record.answer as string).trim(),
+      context: (record.context as string).trim(),
+      type: format.questionType,
+      difficulty: format.difficulty,
+    };
+    if (format.allowMixedFormats) {
+      if (QUESTION_TYPES.includes(record.type as QuestionType)) question.type = record.type as QuestionType;
+      if (DIFFICULTIES.includes(record.difficulty as Difficulty)) question.difficulty = record.difficulty as Difficulty;
+    }
+
+    const typeError = checkQuestionType(question, record.choices);
+    if (typeError) {
+      problems.push({ key: typeError, params: { number } });
+      return;
+    }
+    if (question.type === 'multiple_choice') {
+      question.choices = (record.choices as string[]).map(c => c.trim());
+    }
+    const citations = readCitations(record.citations);
+    if (citations) {
+      question.citations = citations;
+    }
+
+    const key = normalize(question.question);
+    const firstIndex = seen.get(key);
+    if (firstIndex !== undefined) {
+      problems.push({ key: 'invalidDuplicate', params: { number, first: firstIndex + 1 } });
+      return;
+    }
+    seen.set(key, i);
+    questions.push(question);
+  });
+
+  return result(questions);
+};
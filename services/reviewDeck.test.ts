@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnswerRecord, TriviaConfig } from '../types';
+import { BUILT_IN_PERSONALITIES } from './personalities';
+import { addMissedQuestions, loadReviewDeck, overturnReviewMiss, recordReviewResults, scheduleReview } from './reviewDeck';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const config: TriviaConfig = {
+  topic: 'Space',
+  personality: BUILT_IN_PERSONALITIES[0],
+  questionCount: 1,
+  difficulty: 'easy',
+  questionType: 'open',
+  players: [],
+  turnMode: 'turns',
+  language: 'en',
+};
+
+const questions = [{ question: 'Which planet is largest?', answer: 'Jupiter', context: 'It could fit 1,300 Earths.', type: 'open' as const, difficulty: 'easy' as const }];
+
+const miss: AnswerRecord[] = [{ questionIndex: 0, userAnswer: 'the big one', verdict: 'incorrect' }];
+
+describe('overturnReviewMiss', () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => { store.set(key, value); },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('replaces the lapse a review game recorded with a correct review', () => {
+    addMissedQuestions(config, questions, miss, 0);
+    const deckBefore = loadReviewDeck();
+    recordReviewResults(questions, miss, DAY_MS);
+    expect(loadReviewDeck()[0].lapses).toBe(1);
+
+    overturnReviewMiss(deckBefore, questions[0], DAY_MS);
+    expect(loadReviewDeck()).toEqual([scheduleReview(deckBefore[0], 'correct', DAY_MS)]);
+  });
+
+  it('leaves the deck alone for a question it never held', () => {
+    addMissedQuestions(config, questions, miss, 0);
+    const deck = loadReviewDeck();
+    overturnReviewMiss(deck, { ...questions[0], question: 'Which planet is smallest?' }, DAY_MS);
+    expect(loadReviewDeck()).toEqual(deck);
+  });
+});
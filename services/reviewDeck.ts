@@ -0,0 +1,123 @@
+import { AnswerRecord, AnswerVerdict, GeneratedQuestion, LanguageCode, ReviewCard, TriviaConfig } from "../types";
+import { createGameId } from "./historyStore";
+import { questionKey } from "./questionFeed";
+
+const STORAGE_KEY = 'trivai-live:review-deck';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 style scheduling: correct answers stretch the interval by the card's ease, misses start it over
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_EASE = 3;
+const FIRST_INTERVALS_DAYS = [1, 3]; // After the first and second correct review in a row
+export const MAX_REVIEW_CARDS = 10; // Per review session
+
+const isReviewCard = (value: unknown): value is ReviewCard => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const c = value as Record<string, unknown>;
+  const question = typeof c.question === 'object' && c.question !== null ? c.question as Record<string, unknown> : null;
+  return typeof c.id === 'string' && typeof question?.question === 'string' && typeof question.answer === 'string' &&
+    typeof c.dueAt === 'number' && typeof c.intervalDays === 'number' && typeof c.ease === 'number';
+};
+
+export const loadReviewDeck = (): ReviewCard[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(data) ? data.filter(isReviewCard) : [];
+  } catch (e) {
+    console.error("Failed to load the review deck", e);
+    return [];
+  }
+};
+
+const storeReviewDeck = (cards: ReviewCard[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cards));
+};
+
+// Next schedule for a card after one review
+export const scheduleReview = (card: ReviewCard, verdict: AnswerVerdict, now = Date.now()): ReviewCard => {
+  if (verdict !== 'correct') {
+    return {
+      ...card,
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      ease: Math.max(MIN_EASE, card.ease - 0.2),
+      intervalDays: FIRST_INTERVALS_DAYS[0],
+      dueAt: now + FIRST_INTERVALS_DAYS[0] * DAY_MS,
+    };
+  }
+  const repetitions = card.repetitions + 1;
+  const intervalDays = FIRST_INTERVALS_DAYS[repetitions - 1] ?? Math.round(card.intervalDays * card.ease);
+  return {
+    ...card,
+    repetitions,
+    ease: Math.min(MAX_EASE, card.ease + 0.1),
+    intervalDays,
+    dueAt: now + intervalDays * DAY_MS,
+  };
+};
+
+// Due cards in the given language, most overdue first
+export const dueReviewCards = (language: LanguageCode, now = Date.now(), limit = MAX_REVIEW_CARDS): ReviewCard[] =>
+  loadReviewDeck()
+    .filter(c => c.language === language && c.dueAt <= now)
+    .sort((a, b) => a.dueAt - b.dueAt)
+    .slice(0, limit);
+
+// Adds the questions a player missed (or skipped) to the deck, due tomorrow; returns how many were new
+export const addMissedQuestions = (config: TriviaConfig, questions: GeneratedQuestion[], answers: AnswerRecord[], now = Date.now()): number => {
+  const deck = loadReviewDeck();
+  const known = new Set(deck.map(c => questionKey(c.question)));
+  const missed = answers
+    .filter(a => a.verdict === 'incorrect' && questions[a.questionIndex])
+    .map(a => questions[a.questionIndex])
+    .filter(q => !known.has(questionKey(q)));
+  if (missed.length === 0) return 0;
+
+  const added: ReviewCard[] = missed.map(({ citations, round, ...question }) => ({
+    id: createGameId(),
+    question,
+    topic: config.topic,
+    language: config.language,
+    addedAt: now,
+    dueAt: now + FIRST_INTERVALS_DAYS[0] * DAY_MS,
+    intervalDays: FIRST_INTERVALS_DAYS[0],
+    ease: INITIAL_EASE,
+    repetitions: 0,
+    lapses: 0,
+  }));
+  storeReviewDeck([...deck, ...added]);
+  return added.length;
+};
+
+// Reschedules the deck's cards from a review session's answers; unanswered cards keep their schedule
+export const recordReviewResults = (questions: GeneratedQuestion[], answers: AnswerRecord[], now = Date.now()): number => {
+  const verdicts = new Map<string, AnswerVerdict>();
+  answers.forEach(a => {
+    if (questions[a.questionIndex]) verdicts.set(questionKey(questions[a.questionIndex]), a.verdict);
+  });
+  let updated = 0;
+  const deck = loadReviewDeck().map(card => {
+    const verdict = verdicts.get(questionKey(card.question));
+    if (!verdict) return card;
+    updated++;
+    return scheduleReview(card, verdict, now);
+  });
+  storeReviewDeck(deck);
+  return updated;
+};
+
+// Reschedules a review card whose miss was overturned on dispute after the session ended. deckBefore is the deck
+// from before the session was recorded, so the lapse already recorded is replaced rather than built on
+export const overturnReviewMiss = (deckBefore: ReviewCard[], question: GeneratedQuestion, now = Date.now()): void => {
+  const key = questionKey(question);
+  const before = deckBefore.find(c => questionKey(c.question) === key);
+  if (!before) return;
+  storeReviewDeck(loadReviewDeck().map(c => (c.id === before.id ? scheduleReview(before, 'correct', now) : c)));
+};
+
+// Drops a card whose miss was overturned on dispute
+export const forgetReviewQuestion = (question: GeneratedQuestion): void => {
+  const key = questionKey(question);
+  storeReviewDeck(loadReviewDeck().filter(c => questionKey(c.question) !== key));
+};
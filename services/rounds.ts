@@ -0,0 +1,67 @@
+import { AnswerRecord, GeneratedQuestion, RoundScore, TriviaConfig } from "../types";
+import { SourceRegistry } from "./grounding";
+import { totalPoints } from "./scoring";
+import type { GeneratedQuestionSet, TriviaProvider } from "./triviaProvider";
+
+export const MAX_ROUNDS = 5;
+export const DEFAULT_WHEEL_SPINS = 3;
+
+// Broad categories the wheel can land on; each one is also a fine topic on its own
+export const WHEEL_CATEGORIES = [
+  'Science & Nature',
+  'World History',
+  'Geography',
+  'Movies & TV',
+  'Music',
+  'Sports',
+  'Literature',
+  'Art & Design',
+  'Food & Drink',
+  'Technology',
+  'Mythology',
+  'Space',
+  'Animals',
+  'Video Games',
+];
+
+export const isMultiRound = (config: Pick<TriviaConfig, 'rounds'>): boolean => (config.rounds?.length ?? 0) > 1;
+
+// The single label a multi-round game goes by in titles, history and summaries
+export const roundsTopic = (rounds: string[]): string => rounds.join(' · ');
+
+// Lands on `count` different categories, skipping any already chosen
+export const spinCategoryWheel = (count: number, exclude: string[] = []): string[] => {
+  const remaining = WHEEL_CATEGORIES.filter(c => !exclude.includes(c));
+  for (let i = remaining.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [remaining[i], remaining[j]] = [remaining[j], remaining[i]];
+  }
+  return remaining.slice(0, count);
+};
+
+// Questions added by hand on the READY screen have no round, so they count towards the last one
+export const questionRound = (config: Pick<TriviaConfig, 'rounds'>, question: GeneratedQuestion | undefined): number =>
+  Math.min(question?.round ?? Number.MAX_SAFE_INTEGER, (config.rounds?.length ?? 1) - 1);
+
+export const computeRoundScores = (config: TriviaConfig, questions: GeneratedQuestion[], answers: AnswerRecord[]): RoundScore[] =>
+  (config.rounds ?? []).map((topic, round) => {
+    const own = answers.filter(a => questionRound(config, questions[a.questionIndex]) === round);
+    return {
+      round,
+      topic,
+      correct: own.filter(a => a.verdict === 'correct').length,
+      answered: own.length,
+      total: questions.filter(q => questionRound(config, q) === round).length,
+      points: totalPoints(own),
+    };
+  });
+
+// Generates every round on its own topic, then merges them into one game in round order
+export const generateRoundQuestions = async (config: TriviaConfig, provider: TriviaProvider): Promise<GeneratedQuestionSet> => {
+  const rounds = config.rounds ?? [];
+  const batches = await Promise.all(rounds.map(topic => provider.generateQuestions({ ...config, topic })));
+  const registry = new SourceRegistry();
+  const questions = batches.flatMap((batch, round) =>
+    registry.merge(batch.questions, batch.sources).map(q => ({ ...q, round })));
+  return { questions, sources: registry.list() };
+};
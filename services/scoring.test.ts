@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { matchPlayer } from './scoring';
+
+describe('matchPlayer', () => {
+  it('matches names regardless of case and punctuation', () => {
+    expect(matchPlayer(['Alice', 'Bob'], 'alice')).toBe('Alice');
+    expect(matchPlayer(['Alice', 'Bob'], ' Bob! ')).toBe('Bob');
+  });
+
+  it('prefers the exact name over a shorter one it contains', () => {
+    expect(matchPlayer(['Al', 'Alice'], "Alice's")).toBe('Alice');
+    expect(matchPlayer(['Sam', 'Samantha'], 'Samantha!')).toBe('Samantha');
+    expect(matchPlayer(['Sam', 'Samantha'], 'Sam')).toBe('Sam');
+  });
+
+  it('finds a name inside a longer phrase', () => {
+    expect(matchPlayer(['Alice', 'Bob'], "I think it's Bob")).toBe('Bob');
+    expect(matchPlayer(['Mary', 'Mary Jane'], 'That was Mary Jane')).toBe('Mary Jane');
+  });
+
+  it('matches part of a longer registered name when only one player fits', () => {
+    expect(matchPlayer(['Mary Jane', 'Bob'], 'Mary')).toBe('Mary Jane');
+  });
+
+  it('returns null when the name is ambiguous or unknown', () => {
+    expect(matchPlayer(['Sam', 'Max'], 'Sam and Max')).toBeNull();
+    expect(matchPlayer(['Mary Jane', 'Mary Ann'], 'Mary')).toBeNull();
+    expect(matchPlayer(['Alice', 'Bob'], 'Carol')).toBeNull();
+    expect(matchPlayer(['Alice', 'Bob'], '!!')).toBeNull();
+  });
+
+  it('does not match a name hidden inside another word', () => {
+    expect(matchPlayer(['Al', 'Bob'], 'Alice')).toBeNull();
+  });
+});
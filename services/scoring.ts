@@ -0,0 +1,57 @@
+import { AnswerRecord, PlayerScore, TriviaConfig } from "../types";
+
+export const POINTS_PER_CORRECT = 100;
+export const MAX_TIME_BONUS = 50;
+
+export const isPartyGame = (config: Pick<TriviaConfig, 'players'>): boolean => config.players.length > 1;
+
+// Player whose turn it is for a question in turn-taking party games
+export const playerForQuestion = (config: Pick<TriviaConfig, 'players' | 'turnMode'>, questionIndex: number): string | null => {
+  if (!isPartyGame(config) || config.turnMode !== 'turns') return null;
+  return config.players[questionIndex % config.players.length];
+};
+
+// Lowercase words without punctuation, so "Alice's" and "alice!" both contain the word "alice"
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const containsWords = (text: string, words: string): boolean => ` ${text} `.includes(` ${words} `);
+
+// Matches a name heard by the host against the registered players; null when it's unclear who was meant
+export const matchPlayer = (players: string[], name: string): string | null => {
+  const wanted = normalizeName(name);
+  if (!wanted) return null;
+  const names = players.map(normalizeName);
+
+  const exact = players.filter((_, i) => names[i] === wanted);
+  if (exact.length > 0) return exact.length === 1 ? exact[0] : null;
+
+  // The heard text may wrap a name ("It's Alice!"); the longest one wins, unless a match isn't part of it
+  const within = players.map((_, i) => i).filter(i => containsWords(wanted, names[i]));
+  if (within.length > 0) {
+    const best = within.reduce((a, b) => (names[b].length > names[a].length ? b : a));
+    return within.every(i => containsWords(names[best], names[i])) ? players[best] : null;
+  }
+
+  // Or be just part of one longer name ("Mary" for "Mary Jane")
+  const partial = players.filter((_, i) => containsWords(names[i], wanted));
+  return partial.length === 1 ? partial[0] : null;
+};
+
+// Bonus for answering with time to spare, proportional to the time left on the clock
+export const timeBonus = (remainingMs: number, limitMs: number): number =>
+  limitMs > 0 ? Math.round(MAX_TIME_BONUS * Math.min(1, Math.max(0, remainingMs / limitMs))) : 0;
+
+export const answerPoints = (answer: AnswerRecord): number =>
+  answer.verdict === 'correct' ? POINTS_PER_CORRECT + (answer.bonus ?? 0) : 0;
+
+export const totalPoints = (answers: AnswerRecord[]): number =>
+  answers.reduce((sum, a) => sum + answerPoints(a), 0);
+
+// Per-player tallies, highest score first (ties keep registration order)
+export const computePlayerScores = (players: string[], answers: AnswerRecord[]): PlayerScore[] =>
+  players
+    .map(player => {
+      const own = answers.filter(a => a.player === player);
+      return { player, correct: own.filter(a => a.verdict === 'correct').length, answered: own.length, points: totalPoints(own) };
+    })
+    .sort((a, b) => b.points - a.points);
@@ -0,0 +1,60 @@
+import { createResampler, encodeWav } from "./audioUtils";
+
+const MIX_SAMPLE_RATE = 24000; // The host's output rate, so its audio needs no resampling
+
+interface RecordedChunk {
+  source: 'model' | 'mic';
+  samples: Float32Array;
+  sampleRate: number;
+  at: number; // performance.now() time the chunk starts playing or was captured
+}
+
+// Collects host and microphone audio on one clock so a game can be exported as a single track
+export class SessionRecorder {
+  private chunks: RecordedChunk[] = [];
+
+  constructor(private startedAt: number = performance.now()) {}
+
+  add(source: RecordedChunk['source'], samples: Float32Array, sampleRate: number, at: number): void {
+    // Copy, since the caller may reuse the buffer
+    this.chunks.push({ source, samples: samples.slice(), sampleRate, at });
+  }
+
+  // The host was interrupted: drop whatever of its audio was scheduled after this point
+  interrupt(at: number): void {
+    this.chunks = this.chunks.flatMap(chunk => {
+      if (chunk.source !== 'model') return [chunk];
+      if (chunk.at >= at) return [];
+      const played = Math.floor(((at - chunk.at) / 1000) * chunk.sampleRate);
+      return played < chunk.samples.length ? [{ ...chunk, samples: chunk.samples.slice(0, played) }] : [chunk];
+    });
+  }
+
+  get isEmpty(): boolean {
+    return this.chunks.length === 0;
+  }
+
+  // Sums every chunk into one timeline starting when the recorder did
+  mix(sampleRate: number = MIX_SAMPLE_RATE): Float32Array {
+    // One streaming resampler per stream, so back-to-back chunks join without clicks
+    const resamplers = new Map<string, (input: Float32Array) => Float32Array>();
+    const placed = this.chunks.map(chunk => {
+      const key = `${chunk.source}:${chunk.sampleRate}`;
+      if (!resamplers.has(key)) resamplers.set(key, createResampler(chunk.sampleRate, sampleRate));
+      return {
+        offset: Math.max(0, Math.round(((chunk.at - this.startedAt) / 1000) * sampleRate)),
+        samples: resamplers.get(key)!(chunk.samples),
+      };
+    });
+    const length = placed.reduce((max, c) => Math.max(max, c.offset + c.samples.length), 0);
+    const output = new Float32Array(length);
+    for (const { offset, samples } of placed) {
+      for (let i = 0; i < samples.length; i++) output[offset + i] += samples[i];
+    }
+    return output;
+  }
+
+  toWav(): ArrayBuffer {
+    return encodeWav(this.mix(), MIX_SAMPLE_RATE);
+  }
+}
@@ -0,0 +1,44 @@
+import { GameRecord, PlayerStats, TopicStats } from "../types";
+
+// Aggregates saved games into totals, answer streaks and per-topic accuracy
+export const computeStats = (games: GameRecord[]): PlayerStats => {
+  const chronological = [...games].sort((a, b) => a.endedAt - b.endedAt);
+  const topics = new Map<string, TopicStats>();
+  let correct = 0;
+  let answered = 0;
+  let currentStreak = 0;
+  let bestStreak = 0;
+
+  for (const game of chronological) {
+    const key = game.config.topic.trim().toLowerCase();
+    const topic = topics.get(key) ?? { topic: game.config.topic.trim(), games: 0, correct: 0, answered: 0 };
+    topic.games++;
+
+    const ordered = [...game.answers].sort((a, b) => a.questionIndex - b.questionIndex);
+    for (const answer of ordered) {
+      answered++;
+      topic.answered++;
+      if (answer.verdict === 'correct') {
+        correct++;
+        topic.correct++;
+        currentStreak++;
+        bestStreak = Math.max(bestStreak, currentStreak);
+      } else {
+        currentStreak = 0;
+      }
+    }
+    topics.set(key, topic);
+  }
+
+  return {
+    gamesPlayed: games.length,
+    correct,
+    answered,
+    currentStreak,
+    bestStreak,
+    topics: [...topics.values()].sort((a, b) => b.games - a.games),
+  };
+};
+
+export const accuracy = (correct: number, answered: number): number =>
+  answered > 0 ? Math.round((correct / answered) * 100) : 0;
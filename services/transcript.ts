@@ -0,0 +1,30 @@
+import { TranscriptEntry } from "../types";
+
+// Appends a transcription fragment, merging it into the speaker's open turn if there is one
+export const appendTranscript = (
+  entries: TranscriptEntry[],
+  role: TranscriptEntry['role'],
+  text: string,
+): TranscriptEntry[] => {
+  const last = entries[entries.length - 1];
+  if (last && last.role === role && !last.final) {
+    return [...entries.slice(0, -1), { ...last, text: last.text + text }];
+  }
+  return [...entries, { role, text: text.trimStart(), timestamp: Date.now(), final: false }];
+};
+
+// Marks the speaker's most recent turn as complete so the next fragment starts a new entry
+export const closeTranscriptTurn = (
+  entries: TranscriptEntry[],
+  role: TranscriptEntry['role'],
+): TranscriptEntry[] => {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].role === role) {
+      if (entries[i].final) return entries;
+      const next = [...entries];
+      next[i] = { ...entries[i], final: true };
+      return next;
+    }
+  }
+  return entries;
+};
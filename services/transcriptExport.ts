@@ -0,0 +1,64 @@
+import { TranscriptEntry } from "../types";
+
+const MIN_CUE_MS = 1000;
+const MS_PER_WORD = 400; // Roughly conversational speaking pace
+const CUE_GAP_MS = 1; // Some video players drop a cue that ends exactly when the next one starts
+
+export interface SpeakerLabels {
+  model: string;
+  user: string;
+}
+
+interface Cue {
+  start: number; // Milliseconds from the start of the game
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+// Turns only carry a start time, so each cue lasts as long as it would take to say, cut off by the next turn
+const toCues = (entries: TranscriptEntry[], startedAt: number, labels: SpeakerLabels): Cue[] => {
+  const spoken = entries.filter(e => e.text.trim());
+  return spoken.map((entry, i) => {
+    const start = Math.max(0, entry.timestamp - startedAt);
+    const estimated = start + Math.max(MIN_CUE_MS, entry.text.trim().split(/\s+/).length * MS_PER_WORD);
+    const next = spoken[i + 1];
+    const end = next ? Math.max(start + 1, Math.min(estimated, next.timestamp - startedAt - CUE_GAP_MS)) : estimated;
+    return { start, end, speaker: labels[entry.role], text: entry.text.trim() };
+  });
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// hh:mm:ss followed by the millisecond separator SRT (",") or WebVTT (".") expects
+const formatTimestamp = (ms: number, separator: ',' | '.'): string => {
+  const total = Math.round(ms);
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+export const transcriptToSrt = (entries: TranscriptEntry[], startedAt: number, labels: SpeakerLabels): string =>
+  toCues(entries, startedAt, labels)
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.speaker}: ${cue.text}\n`)
+    .join('\n');
+
+export const transcriptToVtt = (entries: TranscriptEntry[], startedAt: number, labels: SpeakerLabels): string => {
+  const cues = toCues(entries, startedAt, labels)
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n<v ${cue.speaker}>${cue.text}\n`);
+  return ['WEBVTT\n', ...cues].join('\n');
+};
+
+// Machine-readable export with both absolute and game-relative times
+export const transcriptToJson = (entries: TranscriptEntry[], startedAt: number, labels: SpeakerLabels): string =>
+  JSON.stringify({
+    startedAt: new Date(startedAt).toISOString(),
+    entries: toCues(entries, startedAt, labels).map(cue => ({
+      speaker: cue.speaker,
+      text: cue.text,
+      startMs: cue.start,
+      endMs: cue.end,
+      timestamp: new Date(startedAt + cue.start).toISOString(),
+    })),
+  }, null, 2);
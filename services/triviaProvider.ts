@@ -0,0 +1,63 @@
+import type {
+  LiveCallbacks,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from "@google/genai";
+import { AnswerVerification, GeneratedQuestion, GroundingSource, HostVoice, LanguageCode, TopicModeration, TriviaConfig } from "../types";
+import { ProviderConfigError } from "./errors";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+export interface GeneratedQuestionSet {
+  questions: GeneratedQuestion[];
+  sources: GroundingSource[];
+}
+
+export interface LiveConnectOptions {
+  config: TriviaConfig;
+  questions: GeneratedQuestion[];
+  systemInstruction: string;
+  callbacks: LiveCallbacks;
+  resumptionHandle?: string; // Resume a dropped session instead of starting over
+}
+
+// The subset of the Live API session the app talks to; Gemini's Session satisfies it as-is
+export interface LiveSessionHandle {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+// Everything the game needs from a model backend: questions, speech and the live host
+export interface TriviaProvider {
+  name: ProviderName;
+  moderateTopic(topic: string, familyFriendly: boolean, language: LanguageCode): Promise<TopicModeration>; // language: for the rejection reason
+  generateQuestions(config: TriviaConfig, avoid?: string[]): Promise<GeneratedQuestionSet>; // avoid: questions already used
+  generateSummarySpeech(text: string, voice: HostVoice): Promise<AudioBuffer | null>;
+  verifyAnswer(question: GeneratedQuestion, userAnswer: string, sources: GroundingSource[]): Promise<AnswerVerification>;
+  connectLive(options: LiveConnectOptions): Promise<LiveSessionHandle>;
+}
+
+export type ProviderName = 'gemini' | 'mock';
+
+const PROVIDERS: Record<ProviderName, TriviaProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Selected with TRIVIA_PROVIDER in .env.local. The mock is opt-in only, so a deploy missing its key
+// fails at startup instead of quietly serving canned questions to real players
+const resolveProviderName = (): ProviderName => {
+  const requested = process.env.TRIVIA_PROVIDER || 'gemini';
+  if (requested !== 'gemini' && requested !== 'mock') {
+    throw new ProviderConfigError(`Unknown TRIVIA_PROVIDER "${requested}"; use "gemini" or "mock".`);
+  }
+  if (requested === 'gemini' && !process.env.API_KEY) {
+    throw new ProviderConfigError("GEMINI_API_KEY is not set. Add it to .env.local, or set TRIVIA_PROVIDER=mock to play offline.");
+  }
+  return requested;
+};
+
+export const triviaProvider: TriviaProvider = PROVIDERS[resolveProviderName()];
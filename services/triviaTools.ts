@@ -0,0 +1,38 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+
+// Function declarations the live host calls so the app can keep score
+export const RECORD_ANSWER = 'recordAnswer';
+export const ADVANCE_QUESTION = 'advanceQuestion';
+export const END_GAME = 'endGame';
+
+export const triviaToolDeclarations: FunctionDeclaration[] = [
+  {
+    name: RECORD_ANSWER,
+    description: "Record the player's answer to the current question and whether it was correct. Call this exactly once per question, before giving feedback.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        questionIndex: { type: Type.INTEGER, description: "Zero-based index of the question being answered." },
+        userAnswer: { type: Type.STRING, description: "What the player said, as heard." },
+        verdict: { type: Type.STRING, enum: ['correct', 'incorrect'], description: "Your judgment of the answer." },
+        playerName: { type: Type.STRING, description: "In party games, the name of the player who answered. Omit in solo games." },
+      },
+      required: ['questionIndex', 'userAnswer', 'verdict'],
+    },
+  },
+  {
+    name: ADVANCE_QUESTION,
+    description: "Call this right before asking the next question.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        questionIndex: { type: Type.INTEGER, description: "Zero-based index of the question you are about to ask." },
+      },
+      required: ['questionIndex'],
+    },
+  },
+  {
+    name: END_GAME,
+    description: "Call this once the last question has been answered and you have wrapped up the game.",
+  },
+];
@@ -3,18 +3,197 @@ export enum GamePhase {
   PREPARING = 'PREPARING',
   READY = 'READY',
   PLAYING = 'PLAYING',
-  ENDED = 'ENDED'
+  ENDED = 'ENDED',
+  HISTORY = 'HISTORY',
+  PACK_EDITOR = 'PACK_EDITOR'
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export type QuestionType = 'open' | 'multiple_choice' | 'true_false' | 'numeric';
+
+// On-screen round controls, sent to the host as text turns
+export type GameControl = 'hint' | 'repeat' | 'skip' | 'time_up';
+
+// How the player answers: speaking into the mic or typing
+export type InputMode = 'voice' | 'text';
+
+// How questions are handed out when more than one player is registered
+export type TurnMode = 'turns' | 'buzz_in';
+
+// Languages the game can be played in, and the UI is translated to
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de' | 'pt';
+
+// Prebuilt voices the live host and the summary speech can use
+export type HostVoice = 'Kore' | 'Puck' | 'Charon' | 'Fenrir' | 'Aoede' | 'Leda' | 'Orus' | 'Zephyr';
+
+// A host character: the built-in ones ship with the app, custom ones are saved in the browser
+export interface HostPersonality {
+  id: string;
+  name: string;
+  description: string;
+  prompt: string; // Detailed persona instructions for the live host
+  catchphrases: string[];
+  language: LanguageCode; // Default game language when this host is picked
+  voice: HostVoice;
+  builtIn?: boolean;
 }
 
 export interface TriviaConfig {
   topic: string;
-  personality: string;
+  personality: HostPersonality;
+  questionCount: number;
+  difficulty: Difficulty;
+  questionType: QuestionType;
+  players: string[]; // Empty for a solo game
+  turnMode: TurnMode;
+  language: LanguageCode;
+  nativeLanguage?: LanguageCode; // Set for language learning: facts are explained in this language
+  timeLimitSeconds?: number; // Per-question answer time; unset or 0 for untimed games
+  inputMode?: InputMode; // Defaults to voice
+  textReplies?: boolean; // The host writes its replies instead of speaking them
+  recordSession?: boolean; // Keep the game's audio for download at the end
+  adaptive?: boolean; // Pick each question's difficulty from how the player is doing; difficulty is the starting tier
+  endless?: boolean; // Keep generating questions until the player runs out of lives; questionCount is ignored
+  rounds?: string[]; // One topic per round, each with questionCount questions; topic then labels the whole game
+  review?: boolean; // Questions come from the review deck's due cards instead of being generated
+  familyFriendly?: boolean; // Stricter topic moderation and question screening, and a host that keeps it clean
+}
+
+// A web page the question generator grounded its facts on
+export interface GroundingSource {
+  id: string;
+  uri: string;
+  title: string;
+  domain?: string;
+}
+
+// Source ids backing each part of a question
+export interface QuestionCitations {
+  answer: string[];
+  context: string[];
 }
 
 export interface GeneratedQuestion {
   question: string;
   answer: string;
   context: string;
+  type: QuestionType;
+  difficulty: Difficulty;
+  choices?: string[]; // Only for multiple_choice; the answer is one of these
+  citations?: QuestionCitations;
+  round?: number; // Index into TriviaConfig.rounds in multi-round games
+}
+
+export type AnswerVerdict = 'correct' | 'incorrect';
+
+// Outcome of re-checking a question against the web after the player disputed it
+export interface AnswerVerification {
+  keyIsCorrect: boolean; // The original answer key holds up
+  correctAnswer: string;
+  userAnswerCorrect: boolean; // The player's answer should have counted
+  explanation: string;
+  sources: GroundingSource[];
+}
+
+export interface DisputeRecord extends AnswerVerification {
+  originalVerdict: AnswerVerdict;
+  checkedAt: number;
+}
+
+export interface AnswerRecord {
+  questionIndex: number;
+  userAnswer: string;
+  verdict: AnswerVerdict;
+  player?: string; // Who answered, in party games
+  bonus?: number; // Speed bonus for correct answers in timed games
+  dispute?: DisputeRecord;
+}
+
+export interface PlayerScore {
+  player: string;
+  correct: number;
+  answered: number;
+  points: number;
+}
+
+// A missed question in the spaced-repetition review deck
+export interface ReviewCard {
+  id: string;
+  question: GeneratedQuestion;
+  topic: string;
+  language: LanguageCode;
+  addedAt: number;
+  dueAt: number; // Epoch ms when the card should next be reviewed
+  intervalDays: number;
+  ease: number; // Interval multiplier after a correct review
+  repetitions: number; // Correct reviews in a row
+  lapses: number; // Times it was missed again after being added
+}
+
+export interface RoundScore {
+  round: number;
+  topic: string;
+  correct: number;
+  answered: number;
+  total: number; // Questions in the round
+  points: number;
+}
+
+// A provider's verdict on whether a topic is fit to play
+export interface TopicModeration {
+  allowed: boolean;
+  reason: string; // Short explanation for the player; empty when allowed
+}
+
+export interface TranscriptEntry {
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number;
+  final: boolean; // False while the speaker's turn is still streaming in
+}
+
+export const QUESTION_PACK_FORMAT = 'trivai-pack';
+
+// Shareable, hand-authored question set
+export interface QuestionPack {
+  format: typeof QUESTION_PACK_FORMAT;
+  version: 1;
+  title: string;
+  topic: string;
+  description?: string;
+  author?: string;
+  createdAt: number;
+  questions: GeneratedQuestion[];
+  sources?: GroundingSource[]; // Referenced by the questions' citations
+}
+
+// A finished game as kept in local history
+export interface GameRecord {
+  id: string;
+  config: TriviaConfig;
+  questions: GeneratedQuestion[];
+  answers: AnswerRecord[];
+  sources: GroundingSource[];
+  transcript: TranscriptEntry[];
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface TopicStats {
+  topic: string;
+  games: number;
+  correct: number;
+  answered: number;
+}
+
+export interface PlayerStats {
+  gamesPlayed: number;
+  correct: number;
+  answered: number;
+  currentStreak: number; // Consecutive correct answers, most recent first
+  bestStreak: number;
+  topics: TopicStats[];
 }
 
 export interface AudioVisualizerState {